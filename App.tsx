@@ -1,17 +1,48 @@
-import React, { useState } from 'react';
-import { AppState, ProductContext, Persona, ChatMessage, CallMode } from './types';
+import React, { useCallback, useRef, useState } from 'react';
+import { AppState, ProductContext, Persona, ChatMessage, CallMode, SessionHistory, CallArtifacts, Scenario, Scorecard, SessionFork } from './types';
 import UrlAnalyzer from './components/UrlAnalyzer';
 import PersonaSelector from './components/PersonaSelector';
+import ScenarioSelector from './components/ScenarioSelector';
 import CallInterface from './components/CallInterface';
 import ChatSession from './components/ChatSession';
 import EvaluationResult from './components/EvaluationResult';
+import HistoryView from './components/HistoryView';
+import SessionCompare from './components/SessionCompare';
+import ProgressDashboard from './components/ProgressDashboard';
+import ScorecardManager from './components/ScorecardManager';
+import { loadSettings, saveSettings } from './services/settings';
+import { getActiveScorecard } from './services/scorecards';
+import { COLD_CALL_SCENARIO, resolveScenario } from './services/scenarios';
+import { createCallMedia } from './utils/callMedia';
 
 function App() {
   const [state, setState] = useState<AppState>(AppState.SETUP);
   const [productContext, setProductContext] = useState<ProductContext | null>(null);
   const [selectedPersona, setSelectedPersona] = useState<Persona | null>(null);
+  // Every buyer when the rep meets a buying committee, the lead persona first; undefined for one-on-one sessions.
+  const [selectedCommittee, setSelectedCommittee] = useState<Persona[] | undefined>(undefined);
+  const [selectedScenario, setSelectedScenario] = useState<Scenario>(COLD_CALL_SCENARIO);
   const [callTranscript, setCallTranscript] = useState<ChatMessage[]>([]);
+  const [callArtifacts, setCallArtifacts] = useState<CallArtifacts | undefined>(undefined);
+  // Picked when the call ends so changing the active scorecard later doesn't re-evaluate it.
+  const [sessionScorecard, setSessionScorecard] = useState<Scorecard>(getActiveScorecard);
   const [callMode, setCallMode] = useState<CallMode>(CallMode.VOICE);
+  // Messages the active voice or chat component starts from: the seed of a fork, or the
+  // conversation so far when switching mode mid-call. Both modes report their transcript
+  // into liveTranscriptRef, so a mode switch hands it over instead of dropping it.
+  const [callHistory, setCallHistory] = useState<ChatMessage[] | undefined>(undefined);
+  const liveTranscriptRef = useRef<ChatMessage[]>([]);
+  // Recording and talk timeline of the running call, so they outlast a mode switch too.
+  const [callMedia, setCallMedia] = useState(createCallMedia);
+  // A chat reply is on its way; switching now would leave it out of the handed-over transcript.
+  const [chatBusy, setChatBusy] = useState(false);
+  const [forkOrigin, setForkOrigin] = useState<SessionFork | undefined>(undefined);
+  const [coachEnabled, setCoachEnabled] = useState(() => loadSettings().coachEnabled);
+  const [showBuyerState, setShowBuyerState] = useState(() => loadSettings().showBuyerState);
+  const [reviewedSession, setReviewedSession] = useState<SessionHistory | null>(null);
+  const [comparedSessions, setComparedSessions] = useState<{ parent: SessionHistory; branch: SessionHistory } | null>(null);
+  // Where to return when leaving the History, Progress or Scorecards screens.
+  const [stateBeforeOverview, setStateBeforeOverview] = useState<AppState>(AppState.SETUP);
 
   const handleProductAnalyzed = (data: ProductContext) => {
     setProductContext(data);
@@ -20,6 +51,21 @@ function App() {
 
   const handlePersonaSelected = (persona: Persona) => {
     setSelectedPersona(persona);
+    setSelectedCommittee(undefined);
+    setState(AppState.SCENARIO_SELECTION);
+  };
+
+  const handleCommitteeSelected = (personas: Persona[]) => {
+    setSelectedPersona(personas[0]);
+    setSelectedCommittee(personas);
+    setState(AppState.SCENARIO_SELECTION);
+  };
+
+  const handleScenarioSelected = (scenario: Scenario) => {
+    setSelectedScenario(scenario);
+    setCallHistory(undefined);
+    setCallMedia(createCallMedia());
+    setForkOrigin(undefined);
     // You could add a mode selector modal here, for now we default to what user picked or hardcode
     // Let's toggle mode via UI in next step or just default to Voice for "Trening"
     // For this demo, let's assume Voice is the primary feature but allow fallback if needed.
@@ -28,15 +74,81 @@ function App() {
 
   const handleEndCall = (transcript: ChatMessage[]) => {
     setCallTranscript(transcript);
+    setCallArtifacts(callMedia.finish());
+    setSessionScorecard(getActiveScorecard());
+    setCallHistory(undefined);
     setState(AppState.EVALUATION);
   };
 
+  const handleTranscriptChange = useCallback((transcript: ChatMessage[]) => {
+    liveTranscriptRef.current = transcript;
+  }, []);
+
+  const handleSwitchMode = (mode: CallMode) => {
+    if (mode === callMode || chatBusy) return;
+    setCallHistory(liveTranscriptRef.current);
+    setCallMode(mode);
+  };
+
+  // Practise a moment again: a new session with the same buyer, seeded with the conversation up to that point.
+  const handleFork = (product: ProductContext, persona: Persona, scenario: Scenario, committee?: Persona[]) => (history: ChatMessage[], origin: SessionFork, mode: CallMode) => {
+    // Shift the carried-over messages to now, so message offsets in the new session stay continuous.
+    const shift = history.length > 0 ? Date.now() - history[history.length - 1].timestamp : 0;
+    setProductContext(product);
+    setSelectedPersona(persona);
+    setSelectedCommittee(committee);
+    setSelectedScenario(scenario);
+    setCallTranscript([]);
+    setCallArtifacts(undefined);
+    setCallHistory(history.map(m => ({ ...m, timestamp: m.timestamp + shift })));
+    setCallMedia(createCallMedia());
+    setForkOrigin(origin);
+    setCallMode(mode);
+    setReviewedSession(null);
+    setState(AppState.CALLING);
+  };
+
   const handleRestart = () => {
     setCallTranscript([]);
+    setCallArtifacts(undefined);
+    setForkOrigin(undefined);
     setSelectedPersona(null);
     setState(AppState.PERSONA_SELECTION);
   };
 
+  const toggleCoach = () => {
+    const enabled = !coachEnabled;
+    setCoachEnabled(enabled);
+    saveSettings({ ...loadSettings(), coachEnabled: enabled });
+  };
+
+  const toggleBuyerState = () => {
+    const enabled = !showBuyerState;
+    setShowBuyerState(enabled);
+    saveSettings({ ...loadSettings(), showBuyerState: enabled });
+  };
+
+  const isOverview = state === AppState.HISTORY || state === AppState.PROGRESS || state === AppState.SCORECARDS;
+
+  const handleOpenOverview = (target: AppState.HISTORY | AppState.PROGRESS | AppState.SCORECARDS) => {
+    if (!isOverview) {
+      // Leaving a running call or a fresh evaluation would lose it, so fall back to persona selection.
+      const resumable = state === AppState.CALLING || state === AppState.EVALUATION
+        ? AppState.PERSONA_SELECTION
+        : state;
+      setStateBeforeOverview(resumable);
+    }
+    setReviewedSession(null);
+    setComparedSessions(null);
+    setState(target);
+  };
+
+  const handleCloseOverview = () => {
+    setReviewedSession(null);
+    setComparedSessions(null);
+    setState(productContext ? stateBeforeOverview : AppState.SETUP);
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 text-gray-900 font-sans">
       {/* Navbar */}
@@ -48,21 +160,66 @@ function App() {
             </div>
             <div className="flex items-center space-x-4">
                {state === AppState.CALLING && (
-                   <div className="flex bg-gray-100 rounded-lg p-1">
+                   <button
+                     onClick={toggleCoach}
+                     className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${coachEnabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}
+                     title="Vis tips underveis i samtalen"
+                   >
+                       Coach {coachEnabled ? 'på' : 'av'}
+                   </button>
+               )}
+               {state === AppState.CALLING && (
+                   <button
+                     onClick={toggleBuyerState}
+                     className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${showBuyerState ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}
+                     title="Vis hvordan kunden oppfatter samtalen"
+                   >
+                       Humør {showBuyerState ? 'på' : 'av'}
+                   </button>
+               )}
+               {state === AppState.CALLING && (
+                   <div
+                     className={`flex bg-gray-100 rounded-lg p-1 ${chatBusy ? 'opacity-50' : ''}`}
+                     title={chatBusy ? 'Venter på svar fra kunden' : undefined}
+                   >
                        <button 
-                         onClick={() => setCallMode(CallMode.VOICE)}
+                         onClick={() => handleSwitchMode(CallMode.VOICE)}
+                         disabled={chatBusy}
                          className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${callMode === CallMode.VOICE ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}
                        >
                            Tale
                        </button>
                        <button 
-                         onClick={() => setCallMode(CallMode.TEXT)}
+                         onClick={() => handleSwitchMode(CallMode.TEXT)}
+                         disabled={chatBusy}
                          className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${callMode === CallMode.TEXT ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}
                        >
                            Chat
                        </button>
                    </div>
                )}
+               {state !== AppState.CALLING && (
+                   <>
+                     <button
+                       onClick={() => handleOpenOverview(AppState.PROGRESS)}
+                       className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${state === AppState.PROGRESS ? 'text-blue-600' : 'text-gray-500 hover:text-gray-900'}`}
+                     >
+                         Fremgang
+                     </button>
+                     <button
+                       onClick={() => handleOpenOverview(AppState.HISTORY)}
+                       className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${state === AppState.HISTORY ? 'text-blue-600' : 'text-gray-500 hover:text-gray-900'}`}
+                     >
+                         Historikk
+                     </button>
+                     <button
+                       onClick={() => handleOpenOverview(AppState.SCORECARDS)}
+                       className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${state === AppState.SCORECARDS ? 'text-blue-600' : 'text-gray-500 hover:text-gray-900'}`}
+                     >
+                         Metodikk
+                     </button>
+                   </>
+               )}
             </div>
           </div>
         </div>
@@ -81,27 +238,54 @@ function App() {
              <PersonaSelector 
                productContext={productContext} 
                onSelect={handlePersonaSelected}
+               onSelectCommittee={handleCommitteeSelected}
                onBack={() => setState(AppState.SETUP)}
              />
           </div>
         )}
 
+        {state === AppState.SCENARIO_SELECTION && selectedPersona && productContext && (
+          <div className="h-full overflow-y-auto">
+            <ScenarioSelector
+              persona={selectedPersona}
+              committee={selectedCommittee}
+              product={productContext}
+              onSelect={handleScenarioSelected}
+              onBack={() => setState(AppState.PERSONA_SELECTION)}
+            />
+          </div>
+        )}
+
         {state === AppState.CALLING && selectedPersona && productContext && (
           <div className="h-full">
             {callMode === CallMode.VOICE ? (
               <CallInterface 
                 persona={selectedPersona} 
                 product={productContext}
+                scenario={selectedScenario}
+                committee={selectedCommittee}
                 mode={CallMode.VOICE}
+                showCoach={coachEnabled}
+                showBuyerState={showBuyerState}
+                initialHistory={callHistory}
+                onTranscriptChange={handleTranscriptChange}
+                media={callMedia}
                 onEndCall={handleEndCall}
-                onCancel={() => setState(AppState.PERSONA_SELECTION)}
+                onCancel={() => setState(AppState.SCENARIO_SELECTION)}
               />
             ) : (
                <ChatSession 
                  persona={selectedPersona} 
                  product={productContext}
+                 scenario={selectedScenario}
+                 committee={selectedCommittee}
+                 showCoach={coachEnabled}
+                 showBuyerState={showBuyerState}
+                 initialHistory={callHistory}
+                 onTranscriptChange={handleTranscriptChange}
+                 onBusyChange={setChatBusy}
                  onEndCall={handleEndCall}
-                 onCancel={() => setState(AppState.PERSONA_SELECTION)}
+                 onCancel={() => setState(AppState.SCENARIO_SELECTION)}
                />
             )}
           </div>
@@ -111,12 +295,64 @@ function App() {
           <div className="h-full overflow-y-auto">
             <EvaluationResult 
               transcript={callTranscript}
+              artifacts={callArtifacts}
               product={productContext}
               persona={selectedPersona}
+              committee={selectedCommittee}
+              scenario={selectedScenario}
+              scorecard={sessionScorecard}
+              fork={forkOrigin}
               onRestart={handleRestart}
+              onFork={handleFork(productContext, selectedPersona, selectedScenario, selectedCommittee)}
             />
           </div>
         )}
+
+        {state === AppState.HISTORY && (
+          <div className="h-full overflow-y-auto">
+            {comparedSessions ? (
+              <SessionCompare
+                parent={comparedSessions.parent}
+                branch={comparedSessions.branch}
+                onBack={() => setComparedSessions(null)}
+              />
+            ) : reviewedSession ? (
+              <EvaluationResult
+                key={reviewedSession.id}
+                transcript={reviewedSession.transcript}
+                product={reviewedSession.product}
+                persona={reviewedSession.persona}
+                committee={reviewedSession.committee}
+                scenario={resolveScenario(reviewedSession.scenario)}
+                scorecard={reviewedSession.scorecard}
+                savedEvaluation={reviewedSession.evaluation}
+                savedSessionId={reviewedSession.id}
+                savedSpeechMetrics={reviewedSession.speechMetrics}
+                restartLabel="Tilbake til historikk"
+                onRestart={() => setReviewedSession(null)}
+                onFork={handleFork(reviewedSession.product, reviewedSession.persona, resolveScenario(reviewedSession.scenario), reviewedSession.committee)}
+              />
+            ) : (
+              <HistoryView
+                onOpen={setReviewedSession}
+                onCompare={(parent, branch) => setComparedSessions({ parent, branch })}
+                onBack={handleCloseOverview}
+              />
+            )}
+          </div>
+        )}
+
+        {state === AppState.PROGRESS && (
+          <div className="h-full overflow-y-auto">
+            <ProgressDashboard onBack={handleCloseOverview} />
+          </div>
+        )}
+
+        {state === AppState.SCORECARDS && (
+          <div className="h-full overflow-y-auto">
+            <ScorecardManager onBack={handleCloseOverview} />
+          </div>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,40 @@
+import React from 'react';
+import { AiError, describeAiError } from '../services/errors';
+
+interface Props {
+  error: AiError;
+  title?: string;
+  onRetry: () => void;
+  onBack?: () => void;
+}
+
+const AiErrorNotice: React.FC<Props> = ({ error, title = "Noe gikk galt", onRetry, onBack }) => {
+  return (
+    <div className="bg-red-50 border border-red-100 rounded-xl p-6 text-center">
+      <div className="text-red-500 text-4xl mb-3">⚠️</div>
+      <h3 className="text-lg font-bold text-red-800 mb-1">{title}</h3>
+      <p className="text-sm text-red-700 mb-1">{describeAiError(error)}</p>
+      <p className="text-xs text-red-400 mb-5 font-mono break-all">{error.kind}: {error.message}</p>
+      <div className="flex justify-center space-x-3">
+        <button
+          type="button"
+          onClick={onRetry}
+          className="px-5 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 transition-colors"
+        >
+          Prøv igjen
+        </button>
+        {onBack && (
+          <button
+            type="button"
+            onClick={onBack}
+            className="px-5 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Gå tilbake
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AiErrorNotice;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { BuyerState } from '../utils/buyerState';
+
+interface Props {
+  state: BuyerState;
+  // The voice call has a dark background, the text chat a light one.
+  theme?: 'light' | 'dark';
+}
+
+const METERS: { key: 'interest' | 'trust' | 'irritation'; label: string; color: string }[] = [
+  { key: 'interest', label: 'Interesse', color: 'bg-blue-500' },
+  { key: 'trust', label: 'Tillit', color: 'bg-green-500' },
+  { key: 'irritation', label: 'Irritasjon', color: 'bg-red-500' },
+];
+
+const formatTime = (seconds: number) => {
+  const abs = Math.abs(seconds);
+  const time = `${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, '0')}`;
+  return seconds < 0 ? `${time} over` : time;
+};
+
+const BuyerStateGauge: React.FC<Props> = ({ state, theme = 'light' }) => {
+  const dark = theme === 'dark';
+  const muted = dark ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`rounded-2xl p-4 space-y-3 ${dark ? 'bg-black/60 backdrop-blur-md border border-white/10 text-white' : 'bg-white border border-gray-200 shadow-sm'}`}>
+      <h4 className={`text-xs font-bold uppercase tracking-wider ${dark ? 'text-gray-300' : 'text-gray-500'}`}>Kundens humør</h4>
+      {METERS.map(meter => (
+        <div key={meter.key}>
+          <div className="flex justify-between text-xs mb-1">
+            <span>{meter.label}</span>
+            <span className={muted}>{state[meter.key]}</span>
+          </div>
+          <div className={`h-2 rounded-full overflow-hidden ${dark ? 'bg-white/10' : 'bg-gray-100'}`}>
+            <div className={`h-full ${meter.color} transition-all duration-500`} style={{ width: `${state[meter.key]}%` }} />
+          </div>
+        </div>
+      ))}
+      <div className={`flex justify-between text-xs pt-1 ${muted}`}>
+        <span>Innvendinger: {state.objectionsResolved}/{state.objectionsRaised} besvart</span>
+        <span className={state.remainingSeconds < 0 ? 'text-red-400 font-semibold' : ''}>⏱ {formatTime(state.remainingSeconds)}</span>
+      </div>
+      {state.hungUp && (
+        <p className="text-sm font-semibold text-red-500">Kunden har mistet tålmodigheten og legger på.</p>
+      )}
+    </div>
+  );
+};
+
+export default BuyerStateGauge;
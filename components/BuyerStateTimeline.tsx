@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import { ChatMessage, Persona, ProductContext, Scenario } from '../types';
+import { trackBuyerState } from '../utils/buyerState';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface Props {
+  transcript: ChatMessage[];
+  persona: Persona;
+  product: ProductContext;
+  scenario: Scenario;
+}
+
+// How the buyer's mood developed turn by turn, replayed from the transcript.
+const BuyerStateTimeline: React.FC<Props> = ({ transcript, persona, product, scenario }) => {
+  const snapshots = useMemo(() => trackBuyerState(transcript, persona, product, scenario), [transcript, persona, product, scenario]);
+  const points = snapshots.map((s, i) => ({ ...s, label: i === 0 ? 'Start' : String(i) }));
+  const final = snapshots[snapshots.length - 1];
+
+  if (snapshots.length < 2) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <h3 className="text-xl font-semibold mb-1">Kundens humør gjennom samtalen</h3>
+      <p className="text-xs text-gray-400 mb-4">Beregnet etter hver replikk. Vanskelighetsgraden og samtaletypen avgjør hvor kunden starter.</p>
+      {final.hungUp && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 border border-red-100 text-sm text-red-800">
+          {persona.name} la på etter replikk {snapshots.length - 1} fordi irritasjonen ble for høy.
+        </div>
+      )}
+      <div style={{ width: '100%', height: 260 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#F3F4F6" />
+            <XAxis dataKey="label" fontSize={12} />
+            <YAxis domain={[0, 100]} fontSize={12} />
+            <Tooltip />
+            <Legend />
+            <Line type="monotone" dataKey="interest" name="Interesse" stroke="#2563EB" strokeWidth={2} dot={false} />
+            <Line type="monotone" dataKey="trust" name="Tillit" stroke="#16A34A" strokeWidth={2} dot={false} />
+            <Line type="monotone" dataKey="irritation" name="Irritasjon" stroke="#DC2626" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-sm text-gray-600 mt-3">
+        Innvendinger besvart: {final.objectionsResolved} av {final.objectionsRaised}.
+        {final.remainingSeconds < 0 && ` Samtalen gikk ${Math.ceil(-final.remainingSeconds / 60)} min over tiden kunden hadde satt av.`}
+      </p>
+    </div>
+  );
+};
+
+export default BuyerStateTimeline;
@@ -1,35 +1,82 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Persona, ProductContext, ChatMessage, CallMode } from '../types';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createPCM16Blob, decodeAudioData, base64ToUint8Array } from '../utils/audio';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { Persona, ProductContext, ChatMessage, CallMode, Scenario } from '../types';
+import { decodeAudioData, base64ToUint8Array, pcm16ToChunk } from '../utils/audio';
+import { CapturePipeline, startCapture } from '../utils/captureWorklet';
+import { getProvider } from '../services/providers';
+import { LiveSession } from '../services/providers/types';
+import { buildCommitteeInstruction, buildPersonaInstruction } from '../services/prompts';
+import { resolveVoice } from '../services/voices';
+import { loadSettings } from '../services/settings';
+import { createVoiceActivityDetector } from '../utils/vad';
+import { CallRecorder } from '../utils/recorder';
+import { TalkTracker } from '../utils/speechAnalytics';
+import { CallMedia } from '../utils/callMedia';
+import { describeBuyerState, trackBuyerState } from '../utils/buyerState';
+import { attributeSpeakers, speakerOf } from '../utils/committee';
+import VoiceSettingsPanel from './VoiceSettingsPanel';
+import CoachPanel from './CoachPanel';
+import BuyerStateGauge from './BuyerStateGauge';
 
 interface Props {
   persona: Persona;
   product: ProductContext;
+  scenario: Scenario;
+  // Every buyer in a multi-party session, `persona` first.
+  committee?: Persona[];
   mode: CallMode;
+  showCoach?: boolean;
+  showBuyerState?: boolean;
+  // Earlier part of the conversation to continue from: a forked session, or the chat before switching to voice.
+  initialHistory?: ChatMessage[];
+  // Reports the transcript as it grows, so it survives switching to chat.
+  onTranscriptChange?: (transcript: ChatMessage[]) => void;
+  // Recording and talk timeline of the call, kept by the caller across mode switches.
+  media: CallMedia;
   onEndCall: (transcript: ChatMessage[]) => void;
   onCancel: () => void;
 }
 
-const CallInterface: React.FC<Props> = ({ persona, product, mode, onEndCall, onCancel }) => {
+// Pause after the buyer's goodbye has finished playing before the call is ended for them.
+const HANG_UP_PAUSE_MS = 1500;
+
+const CallInterface: React.FC<Props> = ({ persona, product, scenario, committee, mode, showCoach, showBuyerState, initialHistory, onTranscriptChange, media, onEndCall, onCancel }) => {
   const [status, setStatus] = useState<'idle' | 'connecting' | 'connected' | 'error'>('idle');
   const [errorMsg, setErrorMsg] = useState<string>('');
   const [isMuted, setIsMuted] = useState(false);
-  const [volumeLevel, setVolumeLevel] = useState(0);
-  const [transcript, setTranscript] = useState<ChatMessage[]>([]);
+  const [transcript, setTranscript] = useState<ChatMessage[]>(initialHistory ?? []);
+  const buyers = committee && committee.length > 1 ? committee : null;
+  // The raw transcript grows chunk by chunk; with a committee it is split per
+  // speaker for everything else, so a name arriving late still lands right.
+  const conversation = useMemo(
+    () => (buyers ? attributeSpeakers(transcript, buyers) : transcript),
+    [transcript, buyers]
+  );
+  // Read by the capture callback, which outlives renders.
+  const transcriptRef = useRef<ChatMessage[]>(conversation);
+  const buyerStates = useMemo(() => trackBuyerState(conversation, persona, product, scenario), [conversation, persona, product, scenario]);
+  const buyerState = buyerStates[buyerStates.length - 1];
   
   // Audio Context Refs
   const audioContextRef = useRef<AudioContext | null>(null);
-  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const inputContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<CapturePipeline | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // The capture callback outlives renders, so it reads mute state through a ref.
+  const isMutedRef = useRef(false);
+
+  // Visualizer Refs
+  const avatarRef = useRef<HTMLDivElement>(null);
+  const volumeRef = useRef(0);
+  const animationFrameRef = useRef<number | null>(null);
   
   // Playback Refs
   const nextStartTimeRef = useRef<number>(0);
   const audioQueueRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const recorderRef = useRef<CallRecorder | null>(null);
+  const talkRef = useRef<TalkTracker | null>(null);
   
   // Session Ref
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const mountedRef = useRef(true);
 
   // Helper to update transcript smartly
@@ -47,13 +94,21 @@ const CallInterface: React.FC<Props> = ({ persona, product, mode, onEndCall, onC
     });
   }, []);
 
+  useEffect(() => {
+    transcriptRef.current = conversation;
+    onTranscriptChange?.(conversation);
+  }, [conversation, onTranscriptChange]);
+
   const startSession = async () => {
     if (status === 'connecting' || status === 'connected') return;
     setStatus('connecting');
     setErrorMsg('');
     
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const provider = getProvider();
+      if (!provider.connectLive) {
+        throw new Error(`${provider.label} støtter ikke talesamtaler. Bytt til Chat-modus.`);
+      }
 
       // Initialize Audio Contexts
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
@@ -67,108 +122,89 @@ const CallInterface: React.FC<Props> = ({ persona, product, mode, onEndCall, onC
               autoGainControl: true,
           } 
       });
+      // Left the screen while waiting for microphone permission: cleanup() has already run.
+      if (!mountedRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
 
       // Config for Gemini Live
-      const systemInstruction = `
-        Du er ${persona.name}, ${persona.title} i ${persona.companySize}. 
-        Du blir oppringt av en selger fra ${product.companyName}.
-        
-        Din personlighet:
-        - Motivasjon: ${persona.motivation}
-        - Smertepunkter: ${persona.painPoints}
-        - Stil: ${persona.communicationStyle}
-        - Vanskelighetsgrad: ${persona.difficulty}/5 (1=lett, 5=umulig).
-        
-        Produktinfo selgeren har: ${product.description}. USP: ${product.sellingPoints.join(', ')}.
-        
-        Instruksjoner:
-        - Snakk norsk.
-        - Vær kort og konsis som i en telefonsamtale.
-        - Ikke vær for hjelpsom hvis vanskelighetsgraden er høy.
-        - Avbryt gjerne hvis det er naturlig.
-        - Start samtalen med å si "Hallo?" eller "Ja, det er ${persona.name}?" når du kobler til.
-      `;
-
-      const config = {
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction,
-          inputAudioTranscription: {}, 
-          outputAudioTranscription: {} 
-        },
+      const systemInstruction = buyers
+        ? buildCommitteeInstruction(buyers, product, scenario, 'call', initialHistory)
+        : buildPersonaInstruction(persona, product, scenario, 'call', initialHistory);
+
+      sessionPromiseRef.current = provider.connectLive({
+        systemInstruction,
+        // A live session has one voice, so a committee speaks with the lead's voice and says names aloud.
+        voiceName: resolveVoice(persona).voiceName,
         callbacks: {
-          onopen: () => {
+          onOpen: () => {
             console.log('Session opened');
             if (mountedRef.current) {
                 setStatus('connected');
+                const { recorder, talk } = media.resume();
+                recorderRef.current = recorder;
+                talkRef.current = talk;
                 setupAudioInput(stream);
             }
           },
-          onmessage: async (message: LiveServerMessage) => {
-            if (!mountedRef.current) return;
-
-            // Handle Transcription
-            if (message.serverContent?.outputTranscription?.text) {
-               updateTranscript('model', message.serverContent.outputTranscription.text);
-            }
-            if (message.serverContent?.inputTranscription?.text) {
-               updateTranscript('user', message.serverContent.inputTranscription.text);
+          onOutputTranscription: (text) => {
+            if (mountedRef.current) updateTranscript('model', text);
+          },
+          onInputTranscription: (text) => {
+            if (mountedRef.current) updateTranscript('user', text);
+          },
+          onAudio: async (base64Audio) => {
+            if (!mountedRef.current || !audioContextRef.current) return;
+            const ctx = audioContextRef.current;
+            // Ensure context is running (sometimes browsers suspend it)
+            if (ctx.state === 'suspended') {
+                try { await ctx.resume(); } catch(e) { console.error(e); }
             }
-
-            // Handle Audio Output
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && audioContextRef.current) {
-              const ctx = audioContextRef.current;
-              // Ensure context is running (sometimes browsers suspend it)
-              if (ctx.state === 'suspended') {
-                  try { await ctx.resume(); } catch(e) { console.error(e); }
-              }
-              
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              
-              try {
-                  const audioBuffer = await decodeAudioData(
-                      base64ToUint8Array(base64Audio),
-                      ctx
-                  );
-                  
-                  const source = ctx.createBufferSource();
-                  source.buffer = audioBuffer;
-                  source.connect(ctx.destination);
-                  
-                  source.onended = () => {
-                      audioQueueRef.current.delete(source);
-                  };
-                  
-                  source.start(nextStartTimeRef.current);
-                  nextStartTimeRef.current += audioBuffer.duration;
-                  audioQueueRef.current.add(source);
-              } catch (e) {
-                  console.error("Error decoding audio", e);
-              }
+            
+            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+            
+            try {
+                const audioBuffer = await decodeAudioData(
+                    base64ToUint8Array(base64Audio),
+                    ctx
+                );
+                
+                const source = ctx.createBufferSource();
+                source.buffer = audioBuffer;
+                source.connect(ctx.destination);
+                
+                source.onended = () => {
+                    audioQueueRef.current.delete(source);
+                };
+                
+                source.start(nextStartTimeRef.current);
+                const delayMs = (nextStartTimeRef.current - ctx.currentTime) * 1000;
+                recorderRef.current?.addOutput(audioBuffer, delayMs);
+                talkRef.current?.addBuyerAudio(audioBuffer.duration * 1000, delayMs);
+                nextStartTimeRef.current += audioBuffer.duration;
+                audioQueueRef.current.add(source);
+            } catch (e) {
+                console.error("Error decoding audio", e);
             }
-
-            // Handle Interruption
-            if (message.serverContent?.interrupted) {
-              console.log("Interrupted!");
-              audioQueueRef.current.forEach(source => {
-                  try { source.stop(); } catch(e) {}
-              });
-              audioQueueRef.current.clear();
-              if (audioContextRef.current) {
-                   nextStartTimeRef.current = audioContextRef.current.currentTime;
-              }
+          },
+          onInterrupted: () => {
+            console.log("Interrupted!");
+            audioQueueRef.current.forEach(source => {
+                try { source.stop(); } catch(e) {}
+            });
+            audioQueueRef.current.clear();
+            recorderRef.current?.cutOutput();
+            talkRef.current?.buyerInterrupted();
+            if (audioContextRef.current) {
+                 nextStartTimeRef.current = audioContextRef.current.currentTime;
             }
           },
-          onclose: () => {
+          onClose: () => {
             console.log("Session closed");
           },
-          onerror: (err: any) => {
+          onError: (err) => {
             console.error("Session error", err);
             if (mountedRef.current) {
                 setStatus('error');
@@ -176,9 +212,14 @@ const CallInterface: React.FC<Props> = ({ persona, product, mode, onEndCall, onC
             }
           }
         }
-      };
-
-      sessionPromiseRef.current = ai.live.connect(config);
+      });
+      sessionPromiseRef.current.catch((err) => {
+        console.error("Failed to connect", err);
+        if (mountedRef.current) {
+            setStatus('error');
+            setErrorMsg(err?.message || "Kunne ikke starte sesjonen");
+        }
+      });
     } catch (err: any) {
       console.error("Failed to start session", err);
       setStatus('error');
@@ -195,76 +236,138 @@ const CallInterface: React.FC<Props> = ({ persona, product, mode, onEndCall, onC
     return () => {
       mountedRef.current = false;
       cleanup();
+      // Leaving mid-call (switching to chat): the call's recording continues without this screen.
+      if (recorderRef.current) media.pause();
     };
   }, []);
 
-  const setupAudioInput = (stream: MediaStream) => {
+  const setupAudioInput = async (stream: MediaStream) => {
     if (!audioContextRef.current) return;
     
-    const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    const source = inputCtx.createMediaStreamSource(stream);
-    const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-    
-    processor.onaudioprocess = (e) => {
-      if (isMuted) return;
-      
-      const inputData = e.inputBuffer.getChannelData(0);
-      
-      // Calculate volume for UI visualizer
-      let sum = 0;
-      for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-      const rms = Math.sqrt(sum / inputData.length);
-      setVolumeLevel(Math.min(1, rms * 5)); 
-
-      // VAD (Voice Activity Detection) - Simple Gate
-      // Only send audio if volume is above threshold to prevent noise/echo loops
-      if (rms > 0.01) {
-          const pcmBlob = createPCM16Blob(inputData);
-          if (sessionPromiseRef.current) {
-              sessionPromiseRef.current.then(session => {
-                  try {
-                    session.sendRealtimeInput({ media: pcmBlob });
-                  } catch(e) {
-                      console.error("Failed to send input", e);
-                  }
-              });
-          }
+    // Runs at the device's native rate; the worklet resamples to 16 kHz.
+    const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    inputContextRef.current = inputCtx;
+    const vadSettings = loadSettings().vad;
+    const vad = createVoiceActivityDetector(vadSettings);
+
+    let capture: CapturePipeline;
+    try {
+      capture = await startCapture(inputCtx, stream, ({ pcm, rms }) => {
+        if (isMutedRef.current) {
+          volumeRef.current = 0;
+          vad.reset();
+          talkRef.current?.sellerStopped();
+          return;
+        }
+        recorderRef.current?.addInput(pcm);
+        // Read by the animation loop; keeping it out of React state avoids a re-render per chunk.
+        volumeRef.current = Math.min(1, rms * 5);
+
+        // Only send audio while the VAD hears speech, to prevent noise/echo loops
+        const { send, speaking, speechEnded } = vad.process({ pcm, rms });
+        if (speaking) talkRef.current?.sellerStarted();
+        if (speechEnded) talkRef.current?.sellerStopped(vadSettings.hangoverMs);
+        if ((send.length > 0 || speechEnded) && sessionPromiseRef.current) {
+          const chunks = send.map(buffer => pcm16ToChunk(buffer));
+          // The transcription of the turn that just ended may still be on its way, so the
+          // mood sent with it can lag one turn behind.
+          const states = speechEnded ? trackBuyerState(transcriptRef.current, persona, product, scenario) : [];
+          sessionPromiseRef.current.then(session => {
+              try {
+                chunks.forEach(chunk => session.sendAudio(chunk));
+                if (speechEnded) {
+                  session.sendContext?.(describeBuyerState(states[states.length - 1]));
+                  session.endAudioStream?.();
+                }
+              } catch(e) {
+                  console.error("Failed to send input", e);
+              }
+          });
+        }
+      });
+    } catch (err) {
+      console.error("Failed to start audio capture", err);
+      if (mountedRef.current) {
+        setStatus('error');
+        setErrorMsg("Kunne ikke starte mikrofonen i nettleseren.");
       }
-    };
+      return;
+    }
 
-    source.connect(processor);
-    processor.connect(inputCtx.destination);
-    
-    inputSourceRef.current = source as any; 
-    processorRef.current = processor;
+    // The call may have been hung up or left while the worklet was loading; cleanup() has
+    // already run then, and nothing may keep capturing or animating.
+    if (!mountedRef.current || inputContextRef.current !== inputCtx) {
+      capture.stop();
+      return;
+    }
+    captureRef.current = capture;
+
+    const animate = () => {
+      if (avatarRef.current) {
+        avatarRef.current.style.transform = `scale(${1 + volumeRef.current * 0.1})`;
+      }
+      animationFrameRef.current = requestAnimationFrame(animate);
+    };
+    animationFrameRef.current = requestAnimationFrame(animate);
   };
 
   const cleanup = () => {
     if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
     }
-    if (processorRef.current) {
-        processorRef.current.disconnect();
-        processorRef.current = null;
+    if (animationFrameRef.current !== null) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
     }
-    if (inputSourceRef.current) {
-        inputSourceRef.current.disconnect();
+    if (captureRef.current) {
+        captureRef.current.stop();
+        captureRef.current = null;
+    }
+    if (inputContextRef.current) {
+        inputContextRef.current.close();
+        inputContextRef.current = null;
     }
     if (audioContextRef.current) {
         audioContextRef.current.close();
         audioContextRef.current = null;
     }
+    if (sessionPromiseRef.current) {
+        sessionPromiseRef.current.then(session => session.close()).catch(() => {});
+        sessionPromiseRef.current = null;
+    }
   };
 
   const toggleMute = () => {
+    isMutedRef.current = !isMuted;
     setIsMuted(!isMuted);
   };
 
   const handleHangup = () => {
+      recorderRef.current = null;
+      talkRef.current = null;
       cleanup();
-      onEndCall(transcript);
+      onEndCall(conversation);
   };
 
+  // The hang-up timer fires after later renders, so it calls the latest handleHangup.
+  const handleHangupRef = useRef(handleHangup);
+  handleHangupRef.current = handleHangup;
+
+  // Once the buyer has had enough, end the call when their goodbye has been played.
+  // Every new transcription restarts the timer, so they get to finish talking.
+  useEffect(() => {
+    const last = conversation[conversation.length - 1];
+    if (status !== 'connected' || !buyerState.hungUp || last?.role !== 'model') return;
+    const ctx = audioContextRef.current;
+    const playingMs = ctx ? Math.max(0, nextStartTimeRef.current - ctx.currentTime) * 1000 : 0;
+    const timer = window.setTimeout(() => handleHangupRef.current(), playingMs + HANG_UP_PAUSE_MS);
+    return () => window.clearTimeout(timer);
+  }, [conversation, buyerState.hungUp, status]);
+
+  // In a committee call the avatar follows whoever spoke last.
+  const lastBuyerLine = [...conversation].reverse().find(m => m.role === 'model');
+  const speaking = (buyers && lastBuyerLine && speakerOf(lastBuyerLine, buyers)) || persona;
+
   if (status === 'error') {
       return (
           <div className="flex flex-col items-center justify-center h-full p-8 text-center bg-gray-50">
@@ -302,8 +405,20 @@ const CallInterface: React.FC<Props> = ({ persona, product, mode, onEndCall, onC
                     <div className="absolute inset-0 rounded-full border-4 border-blue-500 border-t-transparent animate-spin"></div>
                 )}
             </div>
-            <h2 className="text-2xl font-bold mb-2">Ringer {persona.name}...</h2>
-            <p className="text-gray-400 mb-8">{persona.title}</p>
+            <h2 className="text-2xl font-bold mb-2">
+                {buyers ? `Kobler til møte med ${buyers.map(p => p.name).join(', ')}...` : `Ringer ${persona.name}...`}
+            </h2>
+            <p className="text-gray-400 mb-4">{buyers ? buyers.map(p => p.title).join(' · ') : persona.title}</p>
+            <div className="max-w-md mb-8 text-center text-sm text-gray-300">
+                <p className="text-xs uppercase tracking-wider text-gray-400 mb-1">{scenario.name}</p>
+                {scenario.sellerGoal}
+            </div>
+            {initialHistory && initialHistory.length > 0 && (
+                <div className="max-w-md mb-8 px-4 py-3 bg-white/10 rounded-lg text-sm text-gray-300">
+                    <p className="text-xs uppercase tracking-wider text-gray-400 mb-1">Fortsetter etter</p>
+                    «{initialHistory[initialHistory.length - 1].text}»
+                </div>
+            )}
             
             {status === 'idle' && (
                 <button 
@@ -314,6 +429,11 @@ const CallInterface: React.FC<Props> = ({ persona, product, mode, onEndCall, onC
                     <span>Start Samtale</span>
                 </button>
             )}
+            {status === 'idle' && (
+                <div className="mt-10 w-full flex justify-center px-4">
+                    <VoiceSettingsPanel />
+                </div>
+            )}
         </div>
       );
   }
@@ -331,28 +451,39 @@ const CallInterface: React.FC<Props> = ({ persona, product, mode, onEndCall, onC
         <div className="text-sm font-semibold opacity-75">{product.companyName} Salgstrening</div>
       </div>
 
+      {(showCoach || showBuyerState) && (
+        <div className="absolute top-16 right-4 w-72 z-10 hidden md:block space-y-4">
+          {showBuyerState && <BuyerStateGauge state={buyerState} theme="dark" />}
+          {showCoach && <CoachPanel transcript={conversation} product={product} theme="dark" />}
+        </div>
+      )}
+
       {/* Main Visualizer Area */}
       <div className="flex-1 flex flex-col items-center justify-center relative p-4">
         {/* Persona Avatar / Visual */}
         <div className="relative z-0 mb-12">
-           <div className={`w-48 h-48 rounded-full flex items-center justify-center text-6xl font-bold shadow-2xl border-4 border-white/10 transition-transform duration-200 ${persona.avatarColor}`}
-                style={{ transform: `scale(${1 + volumeLevel * 0.1})` }}>
-              {persona.name.charAt(0)}
+           <div ref={avatarRef} className={`w-48 h-48 rounded-full flex items-center justify-center text-6xl font-bold shadow-2xl border-4 border-white/10 transition-transform duration-200 ${speaking.avatarColor}`}>
+              {speaking.name.charAt(0)}
            </div>
            {/* Ambient Pulse */}
            <div className="absolute inset-0 rounded-full border border-white/20 animate-ping opacity-20" style={{ animationDuration: '3s' }}></div>
         </div>
 
         <div className="text-center space-y-2 z-10 mb-12">
-          <h2 className="text-4xl font-bold tracking-tight">{persona.name}</h2>
-          <p className="text-xl text-gray-400">{persona.title}</p>
+          <h2 className="text-4xl font-bold tracking-tight">{speaking.name}</h2>
+          <p className="text-xl text-gray-400">{speaking.title}</p>
+          {buyers && (
+            <p className="text-sm text-gray-500">
+              Også i møtet: {buyers.filter(p => p.id !== speaking.id).map(p => p.name).join(', ')}
+            </p>
+          )}
         </div>
 
         {/* Live Transcripts (Subtitles) */}
         <div className="absolute bottom-36 left-0 right-0 px-4 flex justify-center">
             <div className="bg-black/60 backdrop-blur-md p-6 rounded-2xl max-w-3xl w-full text-center min-h-[80px] flex items-center justify-center transition-all duration-300 border border-white/10">
                 <p className="text-lg font-medium leading-relaxed">
-                    {transcript.length > 0 ? transcript[transcript.length - 1].text : "..."}
+                    {conversation.length > 0 ? conversation[conversation.length - 1].text : "..."}
                 </p>
             </div>
         </div>
@@ -1,84 +1,131 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Persona, ProductContext, ChatMessage } from '../types';
-import { getClient } from '../services/gemini';
-import { Chat } from '@google/genai';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Persona, ProductContext, ChatMessage, Scenario } from '../types';
+import { getProvider } from '../services/providers';
+import { ChatHandle } from '../services/providers/types';
+import { buildCommitteeInstruction, buildPersonaInstruction } from '../services/prompts';
+import { describeBuyerState, trackBuyerState } from '../utils/buyerState';
+import { attributeSpeakers, speakerOf, withSpeakerTags } from '../utils/committee';
+import { AiError, classifyError } from '../services/errors';
+import AiErrorNotice from './AiErrorNotice';
+import CoachPanel from './CoachPanel';
+import BuyerStateGauge from './BuyerStateGauge';
 
 interface Props {
   persona: Persona;
   product: ProductContext;
+  scenario: Scenario;
+  // Every buyer in a multi-party session, `persona` first.
+  committee?: Persona[];
+  showCoach?: boolean;
+  showBuyerState?: boolean;
+  // Earlier part of the conversation to continue from: a forked session, or the call before switching to chat.
+  initialHistory?: ChatMessage[];
+  // Reports the transcript as it grows, so it survives switching to voice.
+  onTranscriptChange?: (transcript: ChatMessage[]) => void;
+  // True while waiting for the buyer's reply; the call can't switch to voice until it has arrived.
+  onBusyChange?: (busy: boolean) => void;
   onEndCall: (transcript: ChatMessage[]) => void;
   onCancel: () => void;
 }
 
-const ChatSession: React.FC<Props> = ({ persona, product, onEndCall, onCancel }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+// Sent to make the buyer open the conversation; not part of the transcript.
+const OPENING_PROMPT = "Start samtalen slik instruksjonene sier.";
+
+// The buyer's mood after `transcript`, sent ahead of the seller's line so the reply reflects it.
+const withBuyerState = (transcript: ChatMessage[], persona: Persona, product: ProductContext, scenario: Scenario) => {
+  const states = trackBuyerState(transcript, persona, product, scenario);
+  return `${describeBuyerState(states[states.length - 1])}\n\n${transcript[transcript.length - 1].text}`;
+};
+
+const ChatSession: React.FC<Props> = ({ persona, product, scenario, committee, showCoach, showBuyerState, initialHistory, onTranscriptChange, onBusyChange, onEndCall, onCancel }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(initialHistory ?? []);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<AiError | null>(null);
+  // What was sent when the buyer failed to answer, for the retry button.
+  const failedPromptRef = useRef('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const chatRef = useRef<Chat | null>(null);
+  const chatRef = useRef<ChatHandle | null>(null);
+  const buyerStates = useMemo(() => trackBuyerState(messages, persona, product, scenario), [messages, persona, product, scenario]);
+  const buyerState = buyerStates[buyerStates.length - 1];
+  const buyers = committee && committee.length > 1 ? committee : null;
 
-  useEffect(() => {
-    // Initialize Chat
-    const systemInstruction = `
-      Du er ${persona.name}, ${persona.title} i ${persona.companySize}. 
-      Du chatter med en selger fra ${product.companyName}.
-      
-      Din personlighet:
-      - Motivasjon: ${persona.motivation}
-      - Smertepunkter: ${persona.painPoints}
-      - Stil: ${persona.communicationStyle}
-      - Vanskelighetsgrad: ${persona.difficulty}/5 (1=lett, 5=umulig).
-      
-      Produktinfo selgeren har: ${product.description}. USP: ${product.sellingPoints.join(', ')}.
-      
-      Instruksjoner:
-      - Svar på norsk.
-      - Vær kort og konsis (som i en chat/SMS).
-      - Ikke vær for hjelpsom hvis vanskelighetsgraden er høy.
-    `;
-
-    const ai = getClient();
-    chatRef.current = ai.chats.create({
-      model: 'gemini-2.5-flash',
-      config: { systemInstruction }
+  // A committee reply can hold lines from several buyers; they become one message each.
+  const addReply = (text: string) =>
+    setMessages(prev => {
+      const next = [...prev, { role: 'model' as const, text, timestamp: Date.now() }];
+      return buyers ? attributeSpeakers(next, buyers) : next;
     });
 
-    // Initial greeting from Persona
-    const start = async () => {
-        setIsLoading(true);
-        try {
-            const res = await chatRef.current?.sendMessage({ message: "Start samtalen ved å si hei." });
-            if (res?.text) {
-                setMessages([{ role: 'model', text: res.text, timestamp: Date.now() }]);
-            }
-        } finally {
-            setIsLoading(false);
-        }
-    };
-    start();
-  }, [persona, product]);
+  // Sends a turn and appends the buyer's answer. `isCurrent` turns false when the
+  // chat it was sent on has been replaced, and a late answer is then dropped.
+  const requestReply = async (prompt: string, isCurrent: () => boolean = () => true) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await chatRef.current?.sendMessage(prompt);
+      if (isCurrent() && res) addReply(res);
+    } catch (err) {
+      if (!isCurrent()) return;
+      console.error(err);
+      failedPromptRef.current = prompt;
+      setError(classifyError(err));
+    } finally {
+      if (isCurrent()) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    // Set by the cleanup; under StrictMode the first run is discarded this way.
+    let ignore = false;
+    const isCurrent = () => !ignore;
+
+    const systemInstruction = buyers
+      ? buildCommitteeInstruction(buyers, product, scenario, 'chat')
+      : buildPersonaInstruction(persona, product, scenario, 'chat');
+
+    if (initialHistory?.length) {
+      // If the seller had the last word (e.g. hung up the voice call mid-turn), that
+      // line is sent as a new message below so the buyer gets to answer it.
+      const last = initialHistory[initialHistory.length - 1];
+      const pending = last.role === 'user' ? last : null;
+      const seeded = pending ? initialHistory.slice(0, -1) : initialHistory;
+      // Replay the opening prompt too, so the history starts with a user turn like the original chat did.
+      chatRef.current = getProvider().createChat({
+        systemInstruction,
+        history: [
+          { role: 'user', text: OPENING_PROMPT, timestamp: initialHistory[0].timestamp },
+          ...(buyers ? withSpeakerTags(seeded, buyers) : seeded),
+        ],
+      });
+      if (pending) requestReply(withBuyerState(initialHistory, persona, product, scenario), isCurrent);
+    } else {
+      // Initial greeting from Persona
+      chatRef.current = getProvider().createChat({ systemInstruction });
+      requestReply(OPENING_PROMPT, isCurrent);
+    }
+    return () => { ignore = true; };
+  }, [persona, product, scenario, buyers, initialHistory]);
 
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || error || buyerState.hungUp) return;
 
     const userMsg: ChatMessage = { role: 'user', text: input, timestamp: Date.now() };
     setMessages(prev => [...prev, userMsg]);
     setInput('');
-    setIsLoading(true);
-
-    try {
-      const result = await chatRef.current?.sendMessage({ message: userMsg.text });
-      if (result?.text) {
-        setMessages(prev => [...prev, { role: 'model', text: result.text, timestamp: Date.now() }]);
-      }
-    } catch (err) {
-      console.error(err);
-    } finally {
-      setIsLoading(false);
-    }
+    await requestReply(withBuyerState([...messages, userMsg], persona, product, scenario));
   };
 
+  useEffect(() => {
+    onTranscriptChange?.(messages);
+  }, [messages, onTranscriptChange]);
+
+  useEffect(() => {
+    onBusyChange?.(isLoading);
+    return () => onBusyChange?.(false);
+  }, [isLoading, onBusyChange]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
@@ -87,12 +134,18 @@ const ChatSession: React.FC<Props> = ({ persona, product, onEndCall, onCancel })
     <div className="flex flex-col h-full bg-gray-50">
       <div className="bg-white border-b border-gray-200 p-4 flex justify-between items-center shadow-sm">
         <div className="flex items-center space-x-3">
-           <div className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-bold ${persona.avatarColor}`}>
-              {persona.name.charAt(0)}
+           <div className="flex -space-x-2">
+              {(buyers ?? [persona]).map(p => (
+                <div key={p.id} className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-bold border-2 border-white ${p.avatarColor}`}>
+                  {p.name.charAt(0)}
+                </div>
+              ))}
            </div>
            <div>
-             <h3 className="font-bold text-gray-800">{persona.name}</h3>
-             <p className="text-xs text-gray-500">{persona.title} @ {persona.companySize}</p>
+             <h3 className="font-bold text-gray-800">{buyers ? buyers.map(p => p.name).join(', ') : persona.name}</h3>
+             <p className="text-xs text-gray-500">
+               {buyers ? `Kjøpskomité @ ${persona.companySize}` : `${persona.title} @ ${persona.companySize}`} · {scenario.name}
+             </p>
            </div>
         </div>
         <button 
@@ -103,26 +156,62 @@ const ChatSession: React.FC<Props> = ({ persona, product, onEndCall, onCancel })
         </button>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((msg, idx) => (
-          <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[80%] rounded-2xl px-4 py-3 shadow-sm ${
-              msg.role === 'user' 
-              ? 'bg-blue-600 text-white rounded-br-none' 
-              : 'bg-white text-gray-800 border border-gray-100 rounded-bl-none'
-            }`}>
-              <p className="text-sm">{msg.text}</p>
-            </div>
-          </div>
-        ))}
-        {isLoading && (
-            <div className="flex justify-start">
-                 <div className="bg-gray-200 text-gray-500 rounded-2xl px-4 py-2 text-xs animate-pulse">
-                    Skriver...
-                 </div>
-            </div>
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.map((msg, idx) => {
+            const speaker = buyers && msg.role === 'model' ? speakerOf(msg, buyers) : undefined;
+            return (
+              <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[80%] rounded-2xl px-4 py-3 shadow-sm ${
+                  initialHistory && idx < initialHistory.length ? 'opacity-60 ' : ''
+                }${
+                  msg.role === 'user' 
+                  ? 'bg-blue-600 text-white rounded-br-none' 
+                  : 'bg-white text-gray-800 border border-gray-100 rounded-bl-none'
+                }`}>
+                  {speaker && (
+                    <p className="text-xs font-semibold text-gray-500 mb-1 flex items-center">
+                      <span className={`w-2 h-2 rounded-full mr-1.5 ${speaker.avatarColor}`}></span>
+                      {speaker.name} · {speaker.title}
+                    </p>
+                  )}
+                  <p className="text-sm">{msg.text}</p>
+                </div>
+              </div>
+            );
+          })}
+          {initialHistory && messages.length === initialHistory.length && !isLoading && (
+              <p className="text-center text-xs text-gray-500">
+                  Samtalen fortsetter herfra.
+              </p>
+          )}
+          {buyerState.hungUp && !isLoading && (
+              <div className="text-center text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">
+                  {buyers ? 'Komiteen avsluttet møtet' : `${persona.name} la på`}. Avslutt samtalen for å se evalueringen.
+              </div>
+          )}
+          {error && !isLoading && (
+              <AiErrorNotice
+                  error={error}
+                  title={buyers ? 'Komiteen svarte ikke' : `${persona.name} svarte ikke`}
+                  onRetry={() => requestReply(failedPromptRef.current)}
+              />
+          )}
+          {isLoading && (
+              <div className="flex justify-start">
+                   <div className="bg-gray-200 text-gray-500 rounded-2xl px-4 py-2 text-xs animate-pulse">
+                      Skriver...
+                   </div>
+              </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+        {(showCoach || showBuyerState) && (
+          <aside className="w-72 p-4 border-l border-gray-200 overflow-y-auto hidden md:block space-y-4">
+            {showBuyerState && <BuyerStateGauge state={buyerState} />}
+            {showCoach && <CoachPanel transcript={messages} product={product} />}
+          </aside>
         )}
-        <div ref={messagesEndRef} />
       </div>
 
       <form onSubmit={handleSend} className="p-4 bg-white border-t border-gray-200">
@@ -131,12 +220,13 @@ const ChatSession: React.FC<Props> = ({ persona, product, onEndCall, onCancel })
                 type="text" 
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
-                placeholder="Skriv melding..."
+                disabled={buyerState.hungUp}
+                placeholder={buyerState.hungUp ? "Kunden har lagt på" : "Skriv melding..."}
                 className="flex-1 border border-gray-300 rounded-full px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
             <button 
                 type="submit" 
-                disabled={!input.trim() || isLoading}
+                disabled={!input.trim() || isLoading || !!error || buyerState.hungUp}
                 className="bg-blue-600 text-white rounded-full p-2 w-10 h-10 flex items-center justify-center hover:bg-blue-700 disabled:opacity-50"
             >
                 &uarr;
@@ -0,0 +1,43 @@
+import React, { useMemo } from 'react';
+import { ChatMessage, ProductContext } from '../types';
+import { CoachTipKind, getCoachTips } from '../utils/coach';
+
+interface Props {
+  transcript: ChatMessage[];
+  product: ProductContext;
+  // The voice call has a dark background, the text chat a light one.
+  theme?: 'light' | 'dark';
+}
+
+const KIND_STYLES: Record<CoachTipKind, { icon: string; border: string }> = {
+  objection: { icon: '🛡️', border: 'border-l-yellow-400' },
+  close: { icon: '🎯', border: 'border-l-green-500' },
+  monologue: { icon: '⏱️', border: 'border-l-red-400' },
+  discovery: { icon: '🔍', border: 'border-l-blue-400' },
+};
+
+const CoachPanel: React.FC<Props> = ({ transcript, product, theme = 'light' }) => {
+  const tips = useMemo(() => getCoachTips(transcript, product), [transcript, product]);
+  const dark = theme === 'dark';
+
+  return (
+    <div className={`rounded-2xl p-4 space-y-3 ${dark ? 'bg-black/60 backdrop-blur-md border border-white/10 text-white' : 'bg-white border border-gray-200 shadow-sm'}`}>
+      <h4 className={`text-xs font-bold uppercase tracking-wider ${dark ? 'text-gray-300' : 'text-gray-500'}`}>Coach</h4>
+      {tips.length === 0 ? (
+        <p className={`text-sm ${dark ? 'text-gray-400' : 'text-gray-500'}`}>Ingen tips akkurat nå. Fortsett sånn!</p>
+      ) : (
+        tips.map(tip => (
+          <div
+            key={tip.kind}
+            className={`border-l-4 pl-3 py-1 ${KIND_STYLES[tip.kind].border}`}
+          >
+            <p className="text-sm font-semibold">{KIND_STYLES[tip.kind].icon} {tip.title}</p>
+            <p className={`text-xs mt-0.5 ${dark ? 'text-gray-300' : 'text-gray-600'}`}>{tip.message}</p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default CoachPanel;
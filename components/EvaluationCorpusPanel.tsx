@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { CorpusCaseResult, EVALUATION_CORPUS, runEvaluationCorpus } from '../services/evaluationCorpus';
+import { configuredProviderName, createProvider, PROVIDER_NAMES, ProviderName } from '../services/providers';
+
+interface Props {
+  samples: number;
+}
+
+// Runs the labelled regression transcripts against any backend (the configured one
+// by default), so trainers can check that scores stay within the expected bands.
+const EvaluationCorpusPanel: React.FC<Props> = ({ samples }) => {
+  const [results, setResults] = useState<CorpusCaseResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const [providerName, setProviderName] = useState<ProviderName>(configuredProviderName);
+
+  const run = async () => {
+    setResults([]);
+    setRunning(true);
+    await runEvaluationCorpus({
+      provider: createProvider(providerName),
+      samples,
+      onResult: result => setResults(prev => [...prev, result]),
+    });
+    setRunning(false);
+  };
+
+  const passed = results.filter(r => r.passed).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-5">
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h3 className="font-bold text-gray-900">Regresjonstest av evalueringen</h3>
+          <p className="text-xs text-gray-500">
+            {EVALUATION_CORPUS.length} merkede samtaler med forventede scorebånd (Standard-scorecard).
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={providerName}
+            onChange={(e) => setProviderName(e.target.value as ProviderName)}
+            disabled={running}
+            className="text-sm border border-gray-300 rounded-lg px-2 py-2"
+            title="AI-tjenesten testen kjøres mot"
+          >
+            {PROVIDER_NAMES.map(name => (
+              <option key={name} value={name}>
+                {createProvider(name).label}{name === configuredProviderName() ? ' (i bruk)' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={run}
+            disabled={running}
+            className="px-4 py-2 text-sm bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {running ? `Kjører ${results.length + 1}/${EVALUATION_CORPUS.length}...` : 'Kjør test'}
+          </button>
+        </div>
+      </div>
+
+      {results.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {!running && (
+            <p className={`text-sm font-semibold ${passed === results.length ? 'text-green-700' : 'text-red-700'}`}>
+              {passed} av {results.length} samtaler innenfor forventet bånd
+            </p>
+          )}
+          {results.map(result => (
+            <div key={result.caseId} className="border border-gray-100 rounded-lg p-3">
+              <p className="text-sm font-medium text-gray-800">
+                <span className={result.passed ? 'text-green-600' : 'text-red-600'}>{result.passed ? '✓' : '✗'}</span> {result.name}
+              </p>
+              {result.error && <p className="text-xs text-red-600 mt-1">{result.error}</p>}
+              <div className="flex flex-wrap gap-2 mt-2">
+                {result.checks.map(c => (
+                  <span
+                    key={c.label}
+                    className={`text-xs px-2 py-1 rounded-full ${c.passed ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+                  >
+                    {c.label}: {c.actual} (forventet {c.expected[0]}-{c.expected[1]})
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationCorpusPanel;
@@ -1,26 +1,159 @@
-import React, { useEffect, useState } from 'react';
-import { ChatMessage, EvaluationMetrics, Persona, ProductContext } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CallArtifacts, CallMode, CallRecording, ChatMessage, EvaluationMetrics, Persona, ProductContext, Scenario, Scorecard, SessionFork, SpeechMetrics } from '../types';
 import { evaluateSession } from '../services/gemini';
+import { createSessionId, saveSession } from '../services/history';
+import { loadRecording, saveRecording } from '../services/recordings';
+import { loadSettings } from '../services/settings';
+import { analyzeSpeech } from '../utils/speechAnalytics';
+import { ConsistencyLevel, consistencyLevel } from '../utils/scoreSamples';
+import { speakerOf } from '../utils/committee';
+import { AiError } from '../services/errors';
+import AiErrorNotice from './AiErrorNotice';
+import SpeechMetricsCard from './SpeechMetricsCard';
+import BuyerStateTimeline from './BuyerStateTimeline';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 
 interface Props {
   transcript: ChatMessage[];
+  // Recording and speech timeline of a voice call that just ended; stored together with the session.
+  artifacts?: CallArtifacts;
   product: ProductContext;
   persona: Persona;
+  // Every buyer in a multi-party session, `persona` first; stored with the session.
+  committee?: Persona[];
+  scenario: Scenario;
+  // Methodology to evaluate with, or the one a stored session was evaluated with.
+  scorecard: Scorecard;
+  // When reopening a stored session the scorecard is shown as-is instead of re-evaluating.
+  savedEvaluation?: EvaluationMetrics;
+  // Id of the stored session, used to look up its recording.
+  savedSessionId?: string;
+  savedSpeechMetrics?: SpeechMetrics;
+  // Set when this session continued an earlier one; stored with the session.
+  fork?: SessionFork;
+  restartLabel?: string;
   onRestart: () => void;
+  // Starts a new session seeded with `history`, linked back to this one.
+  onFork?: (history: ChatMessage[], origin: SessionFork, mode: CallMode) => void;
 }
 
-const EvaluationResult: React.FC<Props> = ({ transcript, product, persona, onRestart }) => {
-  const [evaluation, setEvaluation] = useState<EvaluationMetrics | null>(null);
+// Transcription lags behind speech, so seeking starts slightly before a line's timestamp.
+const SEEK_LEAD_SECONDS = 1;
+
+const CONSISTENCY_LABELS: Record<ConsistencyLevel, { label: string; className: string }> = {
+  high: { label: 'Høy sikkerhet', className: 'bg-green-50 text-green-800' },
+  medium: { label: 'Middels sikkerhet', className: 'bg-yellow-50 text-yellow-800' },
+  low: { label: 'Lav sikkerhet', className: 'bg-red-50 text-red-800' },
+};
+
+const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const EvaluationResult: React.FC<Props> = ({ transcript, artifacts, product, persona, committee, scenario, scorecard, savedEvaluation, savedSessionId, savedSpeechMetrics, fork, restartLabel, onRestart, onFork }) => {
+  const recording = artifacts?.recording;
+  const [evaluation, setEvaluation] = useState<EvaluationMetrics | null>(savedEvaluation ?? null);
+  const [showTranscript, setShowTranscript] = useState(true);
+  // One id per mounted result, so a re-run of the effect overwrites instead of duplicating.
+  const [sessionId] = useState(() => savedSessionId ?? createSessionId());
+  const [error, setError] = useState<AiError | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [playback, setPlayback] = useState<CallRecording | null>(recording ?? null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Sessions saved before speech metrics existed still get the text based ones.
+  const speechMetrics = useMemo(
+    () => savedSpeechMetrics ?? analyzeSpeech(transcript, artifacts?.timeline),
+    [savedSpeechMetrics, transcript, artifacts]
+  );
+
+  useEffect(() => {
+    if (recording || !savedSessionId) return;
+    let mounted = true;
+    loadRecording(savedSessionId).then(stored => {
+      if (mounted) setPlayback(stored);
+    });
+    return () => { mounted = false; };
+  }, [recording, savedSessionId]);
 
   useEffect(() => {
+    if (!playback) return;
+    const url = URL.createObjectURL(playback.blob);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [playback]);
+
+  useEffect(() => {
+    if (savedEvaluation) return;
+    let mounted = true;
     const runEval = async () => {
       if (transcript.length === 0) return;
-      const res = await evaluateSession(transcript, product, persona);
+      setError(null);
+      const result = await evaluateSession(transcript, product, persona, scenario, scorecard, {
+        samples: loadSettings().evaluationSamples,
+        committee,
+      });
+      if (!mounted) return;
+      if (!result.ok) {
+        // Never store a failed evaluation; the rep can retry instead.
+        setError(result.error);
+        return;
+      }
+      const res = result.value;
       setEvaluation(res);
+      saveSession({
+        id: sessionId,
+        date: new Date().toISOString(),
+        persona,
+        committee,
+        product,
+        scenario,
+        evaluation: res,
+        scorecard,
+        transcript,
+        hasRecording: !!recording,
+        speechMetrics,
+        fork
+      });
+      if (recording) saveRecording(sessionId, recording);
     };
     runEval();
-  }, [transcript, product, persona]);
+    return () => { mounted = false; };
+  }, [transcript, recording, speechMetrics, product, persona, committee, scenario, scorecard, fork, savedEvaluation, sessionId, attempt]);
+
+  const offsetOf = (msg: ChatMessage) =>
+    playback ? Math.max(0, (msg.timestamp - playback.startedAt) / 1000 - SEEK_LEAD_SECONDS) : 0;
+
+  const seekTo = (msg: ChatMessage) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = offsetOf(msg);
+    audio.play();
+  };
+
+  // Continue from the first `count` messages of this transcript.
+  const forkAt = (count: number, mode: CallMode) =>
+    onFork?.(transcript.slice(0, count), { parentId: sessionId, forkedAt: count }, mode);
+
+  // The line being played is the last one that starts at or before the playhead.
+  const activeIndex = playback
+    ? transcript.reduce((active, msg, idx) => offsetOf(msg) <= playhead ? idx : active, -1)
+    : -1;
+
+  if (error) {
+    return (
+      <div className="max-w-xl mx-auto p-6 mt-10">
+        <AiErrorNotice
+          error={error}
+          title="Kunne ikke evaluere samtalen"
+          onRetry={() => setAttempt(a => a + 1)}
+          onBack={onRestart}
+        />
+      </div>
+    );
+  }
 
   if (!evaluation) {
     return (
@@ -32,19 +165,25 @@ const EvaluationResult: React.FC<Props> = ({ transcript, product, persona, onRes
     );
   }
 
-  const data = [
-    { name: 'Åpning', value: evaluation.openingScore, color: '#60A5FA' },
-    { name: 'Behov', value: evaluation.discoveryScore, color: '#34D399' },
-    { name: 'Pitch', value: evaluation.pitchScore, color: '#818CF8' },
-    { name: 'Innvendinger', value: evaluation.objectionHandlingScore, color: '#FBBF24' },
-    { name: 'Closing', value: evaluation.closingScore, color: '#F87171' },
-  ];
+  const { consistency } = evaluation;
+  const data = scorecard.criteria.map(c => ({
+    name: c.name,
+    value: evaluation.scores[c.id] ?? 0,
+    spread: consistency?.spread[c.id],
+    color: c.color,
+  }));
+  const annotations = evaluation.annotations ?? [];
+  const improvedReplies = evaluation.improvedReplies ?? [];
+  const successCriteria = evaluation.successCriteria ?? [];
+  const stakeholders = evaluation.stakeholders ?? [];
 
   return (
     <div className="max-w-4xl mx-auto p-6 space-y-8 pb-20">
       <div className="text-center">
         <h2 className="text-3xl font-bold text-gray-900 mb-2">Evaluering</h2>
-        <p className="text-gray-500">Samtale med {persona.name} ({persona.title})</p>
+        <p className="text-gray-500">
+          {scenario.name} med {committee && committee.length > 1 ? committee.map(p => p.name).join(', ') : `${persona.name} (${persona.title})`}
+        </p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-center">
@@ -73,16 +212,43 @@ const EvaluationResult: React.FC<Props> = ({ transcript, product, persona, onRes
                  </PieChart>
                </ResponsiveContainer>
             </div>
+            {consistency && (
+              <div className="mt-4 text-center">
+                {/* Agreement needs at least two runs to compare */}
+                {consistency.samples > 1 && (
+                  <span className={`text-xs font-semibold px-2 py-1 rounded-full ${CONSISTENCY_LABELS[consistencyLevel(consistency)].className}`}>
+                    {CONSISTENCY_LABELS[consistencyLevel(consistency)].label}
+                  </span>
+                )}
+                <p className="text-xs text-gray-500 mt-2">
+                  {consistency.samples > 1
+                    ? `Median av ${consistency.samples} vurderinger, som sprikte ${consistency.totalSpread} poeng i total score`
+                    : 'Basert på én vurdering'}
+                </p>
+                {consistency.requested && (
+                  <p className="text-xs text-yellow-700 mt-1">
+                    {consistency.requested - consistency.samples} av {consistency.requested} vurderinger feilet, så utvalget er mindre enn valgt.
+                  </p>
+                )}
+              </div>
+            )}
         </div>
 
         <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
-           <h3 className="text-xl font-semibold mb-4">Detaljert Score</h3>
+           <h3 className="text-xl font-semibold mb-4">Detaljert Score <span className="text-sm font-normal text-gray-400">({scorecard.name})</span></h3>
            <div className="space-y-4">
              {data.map((item) => (
                <div key={item.name}>
                  <div className="flex justify-between text-sm mb-1">
                    <span className="font-medium text-gray-700">{item.name}</span>
-                   <span className="font-bold text-gray-900">{item.value}/100</span>
+                   <span className="font-bold text-gray-900">
+                     {item.value}/100
+                     {item.spread !== undefined && (
+                       <span className="ml-1 text-xs font-normal text-gray-400" title="Forskjell mellom høyeste og laveste vurdering">
+                         ±{Math.round(item.spread / 2)}
+                       </span>
+                     )}
+                   </span>
                  </div>
                  <div className="w-full bg-gray-100 rounded-full h-2.5">
                    <div 
@@ -96,6 +262,64 @@ const EvaluationResult: React.FC<Props> = ({ transcript, product, persona, onRes
         </div>
       </div>
 
+      {stakeholders.length > 0 && committee && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="text-xl font-semibold mb-4">Per interessent</h3>
+          <div className="space-y-4">
+            {stakeholders.map(s => {
+              const member = committee.find(p => p.id === s.personaId);
+              if (!member) return null;
+              return (
+                <div key={s.personaId} className="flex items-start space-x-3">
+                  <div className={`w-9 h-9 flex-shrink-0 rounded-full flex items-center justify-center text-white font-bold ${member.avatarColor}`}>
+                    {member.name.charAt(0)}
+                  </div>
+                  <div className="flex-1">
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-medium text-gray-700">{member.name} <span className="font-normal text-gray-400">({member.title})</span></span>
+                      <span className="font-bold text-gray-900">{s.score}/100</span>
+                    </div>
+                    <div className="w-full bg-gray-100 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full ${s.score > 70 ? 'bg-green-500' : s.score > 40 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                        style={{ width: `${s.score}%` }}
+                      ></div>
+                    </div>
+                    {s.comment && <p className="text-sm text-gray-500 mt-1">{s.comment}</p>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {successCriteria.length > 0 && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <h3 className="text-xl font-semibold mb-1">
+            Mål for samtalen <span className="text-sm font-normal text-gray-400">({successCriteria.filter(c => c.met).length} av {successCriteria.length} nådd)</span>
+          </h3>
+          <p className="text-sm text-gray-500 mb-4">{scenario.sellerGoal}</p>
+          <ul className="space-y-3">
+            {successCriteria.map((c, i) => (
+              <li key={i} className="flex items-start text-sm">
+                <span className={`mr-3 mt-0.5 w-5 h-5 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${c.met ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                  {c.met ? '✓' : '✗'}
+                </span>
+                <div>
+                  <p className="font-medium text-gray-800">{c.criterion}</p>
+                  {c.comment && <p className="text-gray-500">{c.comment}</p>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <SpeechMetricsCard metrics={speechMetrics} />
+
+      <BuyerStateTimeline transcript={transcript} persona={persona} product={product} scenario={scenario} />
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="bg-green-50 p-6 rounded-xl border border-green-100">
             <h4 className="font-bold text-green-800 mb-3 flex items-center">
@@ -112,6 +336,11 @@ const EvaluationResult: React.FC<Props> = ({ transcript, product, persona, onRes
             <ul className="space-y-2 text-sm text-yellow-900">
                 {evaluation.improvementPoints.map((p, i) => <li key={i}>• {p}</li>)}
             </ul>
+            {improvedReplies.length > 0 && (
+              <p className="mt-3 text-xs text-yellow-800">
+                Se {improvedReplies.length === 1 ? 'forslaget' : `de ${improvedReplies.length} forslagene`} til bedre svar i transkripsjonen under.
+              </p>
+            )}
         </div>
          <div className="bg-blue-50 p-6 rounded-xl border border-blue-100">
             <h4 className="font-bold text-blue-800 mb-3 flex items-center">
@@ -123,12 +352,105 @@ const EvaluationResult: React.FC<Props> = ({ transcript, product, persona, onRes
         </div>
       </div>
 
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <button
+            onClick={() => setShowTranscript(!showTranscript)}
+            className="w-full flex justify-between items-center text-xl font-semibold"
+        >
+            <span>Transkripsjon</span>
+            <span className="text-sm text-gray-500">
+              {showTranscript ? 'Skjul' : `Vis (${transcript.length} meldinger, ${annotations.length} kommentarer)`}
+            </span>
+        </button>
+        {showTranscript && annotations.length > 0 && (
+          <div className="mt-3 flex flex-wrap gap-3 text-xs text-gray-500">
+            {scorecard.criteria.map(c => (
+              <span key={c.id} className="flex items-center">
+                <span className="w-2.5 h-2.5 rounded-full mr-1" style={{ backgroundColor: c.color }}></span>
+                {c.name}
+              </span>
+            ))}
+          </div>
+        )}
+        {showTranscript && audioUrl && (
+          <div className="mt-4 sticky top-0 bg-white py-2 z-10">
+            <audio
+              ref={audioRef}
+              src={audioUrl}
+              controls
+              onTimeUpdate={(e) => setPlayhead(e.currentTarget.currentTime)}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-400 mt-1">Klikk på en replikk for å høre den.</p>
+          </div>
+        )}
+        {showTranscript && (
+          <div className="mt-4 space-y-3">
+            {transcript.map((msg, idx) => (
+              <div key={idx} className={`group flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                <div
+                  onClick={audioUrl ? () => seekTo(msg) : undefined}
+                  className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm ${
+                    msg.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+                  } ${audioUrl ? 'cursor-pointer hover:opacity-90' : ''} ${idx === activeIndex ? 'ring-2 ring-yellow-400' : ''}`}
+                >
+                  <span className="block text-xs font-semibold opacity-70 mb-1">
+                    {msg.role === 'user' ? 'Deg' : (committee && speakerOf(msg, committee)?.name) || persona.name}
+                    {transcript[0] && ` · ${formatOffset(msg.timestamp - transcript[0].timestamp)}`}
+                  </span>
+                  {msg.text}
+                </div>
+                {onFork && (
+                  <div className="hidden group-hover:flex items-center space-x-2 mt-1 text-xs text-gray-400">
+                    <span>Fortsett herfra som</span>
+                    <button onClick={() => forkAt(idx + 1, CallMode.TEXT)} className="font-semibold hover:text-blue-600">Chat</button>
+                    <button onClick={() => forkAt(idx + 1, CallMode.VOICE)} className="font-semibold hover:text-blue-600">Tale</button>
+                  </div>
+                )}
+                {annotations.filter(a => a.messageIndex === idx).map((annotation, i) => {
+                  const category = scorecard.criteria.find(c => c.id === annotation.category);
+                  return (
+                    <div
+                      key={i}
+                      className={`max-w-[80%] mt-1 px-3 py-2 rounded-lg text-xs border-l-4 ${
+                        annotation.sentiment === 'positive' ? 'bg-green-50 text-green-900' : 'bg-yellow-50 text-yellow-900'
+                      }`}
+                      style={{ borderLeftColor: category?.color }}
+                    >
+                      <span className="font-semibold mr-1">
+                        {annotation.sentiment === 'positive' ? '👍' : '💡'} {category?.name}:
+                      </span>
+                      {annotation.comment}
+                    </div>
+                  );
+                })}
+                {improvedReplies.filter(r => r.messageIndex === idx).map(improved => (
+                  <div key={improved.messageIndex} className="max-w-[80%] mt-2 p-3 rounded-lg bg-blue-50 border border-blue-100 text-sm">
+                    <p className="text-xs font-semibold text-blue-800 mb-1">✨ Et bedre svar kunne vært</p>
+                    <p className="text-blue-900 italic">«{improved.reply}»</p>
+                    {improved.rationale && <p className="text-xs text-blue-700 mt-1">{improved.rationale}</p>}
+                    {onFork && (
+                      <button
+                        onClick={() => forkAt(idx, CallMode.TEXT)}
+                        className="mt-2 text-xs font-semibold text-blue-700 hover:text-blue-900"
+                      >
+                        Prøv igjen herfra &rarr;
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="flex justify-center pt-8">
         <button 
             onClick={onRestart}
             className="px-8 py-3 bg-gray-900 text-white font-semibold rounded-full hover:bg-gray-800 transition-colors shadow-lg"
         >
-            Start Ny Økt
+            {restartLabel ?? 'Start Ny Økt'}
         </button>
       </div>
     </div>
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { SessionHistory } from '../types';
+import { deleteSession, loadSessions } from '../services/history';
+import { resolveScenario } from '../services/scenarios';
+
+// The session's local calendar date as YYYY-MM-DD, the format <input type="date"> uses.
+// Saved dates are UTC, so slicing the ISO string would put late-night sessions on the wrong day.
+const localDay = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+interface Props {
+  onOpen: (session: SessionHistory) => void;
+  onCompare: (parent: SessionHistory, branch: SessionHistory) => void;
+  onBack: () => void;
+}
+
+const HistoryView: React.FC<Props> = ({ onOpen, onCompare, onBack }) => {
+  const [sessions, setSessions] = useState<SessionHistory[]>(loadSessions);
+  const [personaFilter, setPersonaFilter] = useState('');
+  const [productFilter, setProductFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const personaNames = useMemo(
+    () => Array.from(new Set(sessions.map(s => s.persona.name))).sort(),
+    [sessions]
+  );
+  const productNames = useMemo(
+    () => Array.from(new Set(sessions.map(s => s.product.companyName))).sort(),
+    [sessions]
+  );
+
+  const byId = useMemo(() => new Map(sessions.map(s => [s.id, s])), [sessions]);
+  const forkCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    sessions.forEach(s => {
+      if (s.fork) counts.set(s.fork.parentId, (counts.get(s.fork.parentId) ?? 0) + 1);
+    });
+    return counts;
+  }, [sessions]);
+
+  const filtered = sessions.filter(s => {
+    if (personaFilter && s.persona.name !== personaFilter) return false;
+    if (productFilter && s.product.companyName !== productFilter) return false;
+    // YYYY-MM-DD strings compare correctly as text.
+    const day = localDay(s.date);
+    if (fromDate && day < fromDate) return false;
+    if (toDate && day > toDate) return false;
+    return true;
+  });
+
+  const handleCompare = (e: React.MouseEvent, parent: SessionHistory, branch: SessionHistory) => {
+    e.stopPropagation();
+    onCompare(parent, branch);
+  };
+
+  const handleDelete = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    if (!confirm("Vil du slette denne økten?")) return;
+    deleteSession(id);
+    setSessions(loadSessions());
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 pb-20">
+      <div className="flex items-center justify-between mb-8">
+        <button onClick={onBack} className="text-gray-500 hover:text-gray-900 font-medium">
+          &larr; Tilbake
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Tidligere økter</h2>
+        <div className="w-16"></div>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Kunde</label>
+          <select
+            value={personaFilter}
+            onChange={(e) => setPersonaFilter(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">Alle</option>
+            {personaNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Produkt</label>
+          <select
+            value={productFilter}
+            onChange={(e) => setProductFilter(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">Alle</option>
+            {productNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Fra dato</label>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Til dato</label>
+          <input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+          />
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <div className="text-center text-gray-500 py-16">
+          {sessions.length === 0 ? 'Ingen lagrede økter ennå. Fullfør en samtale for å se den her.' : 'Ingen økter passer filtrene.'}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filtered.map(session => {
+            const parent = session.fork && byId.get(session.fork.parentId);
+            const forkCount = forkCounts.get(session.id) ?? 0;
+            return (
+              <div
+                key={session.id}
+                onClick={() => onOpen(session)}
+                className="bg-white rounded-xl shadow-sm hover:shadow-md border border-transparent hover:border-blue-500 transition-all cursor-pointer p-4 flex items-center justify-between group"
+              >
+                <div className="flex items-center space-x-4">
+                  <div className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-bold ${session.persona.avatarColor}`}>
+                    {session.persona.name.charAt(0)}
+                  </div>
+                  <div>
+                    <h3 className="font-bold text-gray-900 group-hover:text-blue-600">
+                      {session.persona.name} <span className="font-normal text-gray-500 text-sm">({session.persona.title})</span>
+                      {session.committee && session.committee.length > 1 && (
+                        <span className="font-normal text-gray-500 text-sm"> + {session.committee.slice(1).map(p => p.name).join(', ')}</span>
+                      )}
+                    </h3>
+                    <p className="text-xs text-gray-500">
+                      {resolveScenario(session.scenario).name} &middot; {session.product.companyName} &middot; {new Date(session.date).toLocaleString('nb-NO')} &middot; {session.transcript.length} meldinger
+                      {session.hasRecording && <> &middot; Lydopptak</>}
+                      {session.fork && <> &middot; Forgrening etter melding {session.fork.forkedAt}</>}
+                      {forkCount > 0 && <> &middot; {forkCount} {forkCount === 1 ? 'forgrening' : 'forgreninger'}</>}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-4">
+                  {parent && (
+                    <button
+                      onClick={(e) => handleCompare(e, parent, session)}
+                      className="text-blue-600 hover:text-blue-800 text-sm font-semibold px-2 py-1 rounded"
+                      title="Sammenlign med økten den ble forgrenet fra"
+                    >
+                      Sammenlign
+                    </button>
+                  )}
+                  <span className={`text-2xl font-bold ${
+                    session.evaluation.totalScore > 70 ? 'text-green-600' :
+                    session.evaluation.totalScore > 40 ? 'text-yellow-600' :
+                    'text-red-600'
+                  }`}>
+                    {session.evaluation.totalScore}
+                  </span>
+                  <button
+                    onClick={(e) => handleDelete(e, session.id)}
+                    className="text-gray-400 hover:text-red-600 text-sm px-2 py-1 rounded"
+                    title="Slett økt"
+                  >
+                    Slett
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
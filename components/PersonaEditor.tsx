@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Persona, PersonaVoice } from '../types';
+import { createPersonaId } from '../services/personaLibrary';
+import { DIALECTS, PREBUILT_VOICES, resolveVoice, SPEAKING_RATES } from '../services/voices';
+import VoicePreviewButton from './VoicePreviewButton';
+
+interface Props {
+  // Omit to create a new persona from scratch.
+  persona?: Persona;
+  onSave: (persona: Persona) => void;
+  onCancel: () => void;
+}
+
+const AVATAR_PALETTE = [
+  'bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-red-500', 'bg-orange-500',
+  'bg-yellow-500', 'bg-teal-500', 'bg-pink-500', 'bg-indigo-500', 'bg-gray-700'
+];
+
+const EMPTY_PERSONA: Omit<Persona, 'id'> = {
+  name: '',
+  title: '',
+  companySize: '',
+  industry: '',
+  motivation: '',
+  painPoints: '',
+  communicationStyle: '',
+  difficulty: 3,
+  avatarColor: AVATAR_PALETTE[0],
+};
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const PersonaEditor: React.FC<Props> = ({ persona, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Persona>(persona ?? { ...EMPTY_PERSONA, id: createPersonaId() });
+
+  const update = <K extends keyof Persona>(key: K, value: Persona[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  // Editing any voice field pins the whole voice, so it no longer follows gender and age.
+  const updateVoice = (changes: Partial<PersonaVoice>) =>
+    setDraft(prev => ({ ...prev, voice: { ...resolveVoice(prev), ...changes } }));
+
+  const voice = resolveVoice(draft);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ ...draft, name: draft.name.trim(), title: draft.title.trim() });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-lg p-6 space-y-4 max-w-2xl mx-auto">
+      <div className="flex items-center space-x-3 mb-2">
+        <div className={`w-12 h-12 rounded-full flex items-center justify-center text-white text-xl font-bold ${draft.avatarColor}`}>
+          {draft.name.charAt(0) || '?'}
+        </div>
+        <h3 className="text-xl font-bold text-gray-800">{persona ? 'Rediger kunde' : 'Ny kunde'}</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Navn</label>
+          <input required className={inputClass} value={draft.name} onChange={(e) => update('name', e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Tittel</label>
+          <input required className={inputClass} value={draft.title} onChange={(e) => update('title', e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Bedriftsstørrelse</label>
+          <input className={inputClass} placeholder="f.eks. 50 ansatte" value={draft.companySize} onChange={(e) => update('companySize', e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Bransje</label>
+          <input className={inputClass} value={draft.industry} onChange={(e) => update('industry', e.target.value)} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Motivasjon</label>
+        <textarea className={`${inputClass} h-16`} value={draft.motivation} onChange={(e) => update('motivation', e.target.value)} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Smertepunkter</label>
+        <textarea className={`${inputClass} h-16`} value={draft.painPoints} onChange={(e) => update('painPoints', e.target.value)} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Kommunikasjonsstil</label>
+        <textarea className={`${inputClass} h-16`} value={draft.communicationStyle} onChange={(e) => update('communicationStyle', e.target.value)} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Kjønn</label>
+          <select
+            className={inputClass}
+            value={draft.gender ?? ''}
+            onChange={(e) => update('gender', e.target.value === '' ? undefined : e.target.value as Persona['gender'])}
+          >
+            <option value="">Ikke oppgitt</option>
+            <option value="female">Kvinne</option>
+            <option value="male">Mann</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Alder</label>
+          <input
+            type="number"
+            min={18}
+            max={80}
+            className={inputClass}
+            value={draft.age ?? ''}
+            onChange={(e) => update('age', e.target.value === '' ? undefined : Number(e.target.value))}
+          />
+        </div>
+      </div>
+
+      <fieldset className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <legend className="px-1 text-xs font-medium text-gray-500">Stemme i samtaler</legend>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Stemme</label>
+            <select className={inputClass} value={voice.voiceName} onChange={(e) => updateVoice({ voiceName: e.target.value })}>
+              {PREBUILT_VOICES.map(v => (
+                <option key={v.name} value={v.name}>{v.name} ({v.gender === 'female' ? 'kvinne' : 'mann'}, {v.label.toLowerCase()})</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Tempo</label>
+            <select
+              className={inputClass}
+              value={voice.speakingRate}
+              onChange={(e) => updateVoice({ speakingRate: e.target.value as PersonaVoice['speakingRate'] })}
+            >
+              {SPEAKING_RATES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Dialekt</label>
+            <input
+              list="persona-dialects"
+              className={inputClass}
+              placeholder="Ingen"
+              value={voice.dialect ?? ''}
+              onChange={(e) => updateVoice({ dialect: e.target.value || undefined })}
+            />
+            <datalist id="persona-dialects">
+              {DIALECTS.map(d => <option key={d} value={d} />)}
+            </datalist>
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Hvordan høres personen ut?</label>
+          <input
+            className={inputClass}
+            placeholder="f.eks. tørr og avmålt, ler lett"
+            value={voice.style}
+            onChange={(e) => updateVoice({ style: e.target.value })}
+          />
+        </div>
+        <VoicePreviewButton persona={draft} className="text-sm font-semibold text-blue-600 hover:text-blue-800 disabled:opacity-50" />
+      </fieldset>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Vanskelighetsgrad: {draft.difficulty}/5</label>
+          <input
+            type="range"
+            min={1}
+            max={5}
+            value={draft.difficulty}
+            onChange={(e) => update('difficulty', Number(e.target.value))}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Farge</label>
+          <div className="flex flex-wrap gap-2">
+            {AVATAR_PALETTE.map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => update('avatarColor', color)}
+                className={`w-7 h-7 rounded-full ${color} ${draft.avatarColor === color ? 'ring-2 ring-offset-2 ring-gray-900' : ''}`}
+                title={color}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <button type="button" onClick={onCancel} className="px-5 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-50">
+          Avbryt
+        </button>
+        <button type="submit" className="px-5 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700">
+          Lagre i bibliotek
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PersonaEditor;
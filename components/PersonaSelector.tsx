@@ -1,38 +1,236 @@
 import React, { useEffect, useState } from 'react';
 import { generatePersonas } from '../services/gemini';
 import { Persona, ProductContext } from '../types';
+import { AiError } from '../services/errors';
+import { MAX_COMMITTEE_SIZE } from '../utils/committee';
+import {
+  createPersonaId,
+  duplicatePersona,
+  loadPersonaLibrary,
+  removePersonaFromLibrary,
+  savePersonaToLibrary
+} from '../services/personaLibrary';
+import AiErrorNotice from './AiErrorNotice';
+import PersonaEditor from './PersonaEditor';
+import VoicePreviewButton from './VoicePreviewButton';
 
 interface Props {
   productContext: ProductContext;
   onSelect: (persona: Persona) => void;
+  // The lead persona comes first.
+  onSelectCommittee: (personas: Persona[]) => void;
   onBack: () => void;
 }
 
-const PersonaSelector: React.FC<Props> = ({ productContext, onSelect, onBack }) => {
+interface CardProps {
+  persona: Persona;
+  onSelect: (persona: Persona) => void;
+  actions?: React.ReactNode;
+  // Set while picking a buying committee: the member's position, or null if not picked.
+  committeeIndex?: number | null;
+}
+
+const PersonaCard: React.FC<CardProps> = ({ persona, onSelect, actions, committeeIndex }) => (
+  <div
+    onClick={() => onSelect(persona)}
+    className={`bg-white rounded-xl shadow-md hover:shadow-xl transition-all cursor-pointer border group overflow-hidden ${
+      committeeIndex != null ? 'border-blue-500 ring-2 ring-blue-200' : 'border-transparent hover:border-blue-500'
+    }`}
+  >
+    <div className={`h-2 ${persona.avatarColor} w-full`}></div>
+    <div className="p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 group-hover:text-blue-600">{persona.name}</h3>
+          <p className="text-sm text-gray-500">{persona.title}</p>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${
+          persona.difficulty <= 2 ? 'bg-green-100 text-green-800' :
+          persona.difficulty <= 4 ? 'bg-yellow-100 text-yellow-800' :
+          'bg-red-100 text-red-800'
+        }`}>
+          Nivå {persona.difficulty}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        <div className="text-sm">
+          <span className="font-semibold text-gray-700 block">Motivasjon:</span>
+          <p className="text-gray-600">{persona.motivation}</p>
+        </div>
+        <div className="text-sm">
+          <span className="font-semibold text-gray-700 block">Smertepunkt:</span>
+          <p className="text-gray-600">{persona.painPoints}</p>
+        </div>
+         <div className="text-sm">
+          <span className="font-semibold text-gray-700 block">Stil:</span>
+          <p className="text-gray-600 italic">"{persona.communicationStyle}"</p>
+        </div>
+      </div>
+
+      <div className="mt-6 pt-4 border-t border-gray-100 flex justify-between items-center">
+        {/* Actions must not trigger the card's own onSelect */}
+        <div className="flex space-x-3 text-sm" onClick={(e) => e.stopPropagation()}>
+          <VoicePreviewButton persona={persona} className={actionClass} />
+          {actions}
+        </div>
+        {committeeIndex === undefined ? (
+          <span className="text-blue-600 font-semibold text-sm group-hover:translate-x-1 transition-transform flex items-center">
+            Velg &rarr;
+          </span>
+        ) : (
+          <span className="text-blue-600 font-semibold text-sm">
+            {committeeIndex === null ? '+ Legg til' : committeeIndex === 0 ? '✓ Leder møtet' : '✓ Med i komiteen'}
+          </span>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+const actionClass = "text-gray-500 hover:text-blue-600 font-medium";
+
+const PersonaSelector: React.FC<Props> = ({ productContext, onSelect, onSelectCommittee, onBack }) => {
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<AiError | null>(null);
+  // Bumped by the retry button to re-run the generation effect.
+  const [attempt, setAttempt] = useState(0);
+  const [tab, setTab] = useState<'generated' | 'library'>('generated');
+  const [library, setLibrary] = useState<Persona[]>(loadPersonaLibrary);
+  // Generated personas get a fresh id when pinned, so remember which ones were pinned.
+  const [pinnedIds, setPinnedIds] = useState<Set<string>>(new Set());
+  // null = not editing, undefined persona = creating a new one.
+  const [editing, setEditing] = useState<{ persona?: Persona } | null>(null);
+  // null = one-on-one; otherwise the committee picked so far, in the order it was picked.
+  const [committee, setCommittee] = useState<Persona[] | null>(null);
 
   useEffect(() => {
     let mounted = true;
     const load = async () => {
+      setLoading(true);
+      setError(null);
       const result = await generatePersonas(productContext);
       if (mounted) {
-        setPersonas(result);
+        if (result.ok) {
+          setPersonas(result.value);
+          setPinnedIds(new Set());
+        } else {
+          setError(result.error);
+        }
         setLoading(false);
       }
     };
     load();
     return () => { mounted = false; };
-  }, [productContext]);
+  }, [productContext, attempt]);
+
+  const saveToLibrary = (persona: Persona) => {
+    savePersonaToLibrary(persona);
+    setLibrary(loadPersonaLibrary());
+  };
+
+  const handlePin = (persona: Persona) => {
+    saveToLibrary({ ...persona, id: createPersonaId() });
+    setPinnedIds(prev => new Set(prev).add(persona.id));
+  };
+
+  const handleRemove = (persona: Persona) => {
+    if (!confirm(`Fjerne ${persona.name} fra biblioteket?`)) return;
+    removePersonaFromLibrary(persona.id);
+    setLibrary(loadPersonaLibrary());
+  };
+
+  const toggleMember = (persona: Persona) => {
+    setCommittee(prev => {
+      if (!prev) return prev;
+      if (prev.some(p => p.id === persona.id)) return prev.filter(p => p.id !== persona.id);
+      return prev.length < MAX_COMMITTEE_SIZE ? [...prev, persona] : prev;
+    });
+  };
+
+  // Cards pick a single buyer, or toggle committee members while a committee is being put together.
+  const cardSelection = (persona: Persona) => {
+    if (!committee) return { onSelect };
+    const index = committee.findIndex(p => p.id === persona.id);
+    return { onSelect: toggleMember, committeeIndex: index === -1 ? null : index };
+  };
+
+  const handleEditorSave = (persona: Persona) => {
+    saveToLibrary(persona);
+    setEditing(null);
+    setTab('library');
+  };
+
+  const renderGenerated = () => {
+    if (loading) {
+      return (
+        <div className="flex flex-col items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4"></div>
+          <p className="text-gray-600">Genererer realistiske kunder...</p>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="max-w-xl mx-auto mt-6">
+          <AiErrorNotice
+            error={error}
+            title="Kunne ikke generere kunder"
+            onRetry={() => setAttempt(a => a + 1)}
+            onBack={onBack}
+          />
+        </div>
+      );
+    }
 
-  if (loading) {
     return (
-      <div className="flex flex-col items-center justify-center h-64">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mb-4"></div>
-        <p className="text-gray-600">Genererer realistiske kunder...</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-6">
+        {personas.map((persona) => (
+          <PersonaCard
+            key={persona.id}
+            persona={persona}
+            {...cardSelection(persona)}
+            actions={pinnedIds.has(persona.id) ? (
+              <span className="text-green-600 font-medium">Festet i biblioteket</span>
+            ) : (
+              <button onClick={() => handlePin(persona)} className={actionClass}>Fest</button>
+            )}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  const renderLibrary = () => {
+    if (library.length === 0) {
+      return (
+        <div className="text-center text-gray-500 py-16">
+          Biblioteket er tomt. Fest en generert kunde eller lag en ny.
+        </div>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-6">
+        {library.map((persona) => (
+          <PersonaCard
+            key={persona.id}
+            persona={persona}
+            {...cardSelection(persona)}
+            actions={(
+              <>
+                <button onClick={() => setEditing({ persona })} className={actionClass}>Rediger</button>
+                <button onClick={() => saveToLibrary(duplicatePersona(persona))} className={actionClass}>Dupliser</button>
+                <button onClick={() => handleRemove(persona)} className="text-gray-500 hover:text-red-600 font-medium">Fjern</button>
+              </>
+            )}
+          />
+        ))}
       </div>
     );
-  }
+  };
 
   return (
     <div className="max-w-6xl mx-auto p-4">
@@ -41,56 +239,68 @@ const PersonaSelector: React.FC<Props> = ({ productContext, onSelect, onBack })
           &larr; Tilbake
         </button>
         <h2 className="text-2xl font-bold text-gray-800">Velg en kunde å ringe</h2>
-        <div className="w-16"></div> 
+        <div className="w-16"></div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-6">
-        {personas.map((persona) => (
-          <div 
-            key={persona.id} 
-            onClick={() => onSelect(persona)}
-            className="bg-white rounded-xl shadow-md hover:shadow-xl transition-all cursor-pointer border border-transparent hover:border-blue-500 group overflow-hidden"
-          >
-            <div className={`h-2 ${persona.avatarColor} w-full`}></div>
-            <div className="p-6">
-              <div className="flex justify-between items-start mb-4">
-                <div>
-                  <h3 className="text-xl font-bold text-gray-900 group-hover:text-blue-600">{persona.name}</h3>
-                  <p className="text-sm text-gray-500">{persona.title}</p>
-                </div>
-                <span className={`px-2 py-1 rounded text-xs font-semibold ${
-                  persona.difficulty <= 2 ? 'bg-green-100 text-green-800' :
-                  persona.difficulty <= 4 ? 'bg-yellow-100 text-yellow-800' :
-                  'bg-red-100 text-red-800'
-                }`}>
-                  Nivå {persona.difficulty}
-                </span>
-              </div>
-              
-              <div className="space-y-3">
-                <div className="text-sm">
-                  <span className="font-semibold text-gray-700 block">Motivasjon:</span>
-                  <p className="text-gray-600">{persona.motivation}</p>
-                </div>
-                <div className="text-sm">
-                  <span className="font-semibold text-gray-700 block">Smertepunkt:</span>
-                  <p className="text-gray-600">{persona.painPoints}</p>
-                </div>
-                 <div className="text-sm">
-                  <span className="font-semibold text-gray-700 block">Stil:</span>
-                  <p className="text-gray-600 italic">"{persona.communicationStyle}"</p>
-                </div>
-              </div>
-              
-              <div className="mt-6 pt-4 border-t border-gray-100 flex justify-end">
-                <span className="text-blue-600 font-semibold text-sm group-hover:translate-x-1 transition-transform flex items-center">
-                  Start Samtale &rarr;
-                </span>
-              </div>
+      {editing ? (
+        <PersonaEditor
+          persona={editing.persona}
+          onSave={handleEditorSave}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              <button
+                onClick={() => setTab('generated')}
+                className={`px-4 py-1 text-sm font-semibold rounded-md transition-colors ${tab === 'generated' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}
+              >
+                Genererte
+              </button>
+              <button
+                onClick={() => setTab('library')}
+                className={`px-4 py-1 text-sm font-semibold rounded-md transition-colors ${tab === 'library' ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}
+              >
+                Mitt bibliotek ({library.length})
+              </button>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setCommittee(c => c ? null : [])}
+                className={`px-4 py-2 text-sm font-semibold rounded-lg border ${committee ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+              >
+                {committee ? 'Avbryt komité' : 'Kjøpskomité'}
+              </button>
+              <button
+                onClick={() => setEditing({})}
+                className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700"
+              >
+                + Ny kunde
+              </button>
             </div>
           </div>
-        ))}
-      </div>
+
+          {committee && (
+            <div className="mb-6 p-4 rounded-xl bg-blue-50 border border-blue-100 flex items-center justify-between">
+              <p className="text-sm text-blue-900">
+                {committee.length === 0
+                  ? `Velg 2–${MAX_COMMITTEE_SIZE} kunder som skal delta i samme møte. Den første du velger leder møtet.`
+                  : `I møtet: ${committee.map(p => `${p.name} (${p.title})`).join(', ')}`}
+              </p>
+              <button
+                onClick={() => onSelectCommittee(committee)}
+                disabled={committee.length < 2}
+                className="ml-4 px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+              >
+                Velg komiteen &rarr;
+              </button>
+            </div>
+          )}
+
+          {tab === 'generated' ? renderGenerated() : renderLibrary()}
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { ProductContext } from '../types';
+
+interface Props {
+  product: ProductContext;
+  onSave: (product: ProductContext) => void;
+  onUse: (product: ProductContext) => void;
+  onCancel: () => void;
+}
+
+// List fields are edited as one entry per line.
+const toLines = (items?: string[]) => (items ?? []).join('\n');
+const fromLines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+const shortUrl = (url: string) => {
+  const { hostname, pathname } = new URL(url);
+  return pathname === '/' ? hostname : pathname;
+};
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const ProductEditor: React.FC<Props> = ({ product, onSave, onUse, onCancel }) => {
+  const [companyName, setCompanyName] = useState(product.companyName);
+  const [description, setDescription] = useState(product.description);
+  const [sellingPoints, setSellingPoints] = useState(toLines(product.sellingPoints));
+  const [pricing, setPricing] = useState(product.pricing ?? '');
+  const [competitors, setCompetitors] = useState(toLines(product.competitors));
+  const [typicalObjections, setTypicalObjections] = useState(toLines(product.typicalObjections));
+  const [caseStudies, setCaseStudies] = useState(toLines(product.caseStudies));
+  const [documents, setDocuments] = useState(product.documents ?? []);
+
+  const buildProduct = (): ProductContext => ({
+    ...product,
+    companyName: companyName.trim(),
+    description: description.trim(),
+    sellingPoints: fromLines(sellingPoints),
+    pricing: pricing.trim() || undefined,
+    competitors: fromLines(competitors),
+    typicalObjections: fromLines(typicalObjections),
+    caseStudies: fromLines(caseStudies),
+    documents,
+    // Drop citations for selling points the rep removed or rewrote.
+    citations: product.citations?.filter(c => fromLines(sellingPoints).includes(c.sellingPoint)),
+  });
+
+  const isValid = companyName.trim() !== '' && fromLines(sellingPoints).length > 0;
+
+  return (
+    <div className="max-w-2xl mx-auto p-6 bg-white rounded-xl shadow-lg mt-10 space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800">Se over produktet</h2>
+        <p className="text-gray-600 text-sm">Rett opp det AI-en fant, og legg gjerne til pris, konkurrenter og innvendinger. Kunden og evalueringen bruker dette.</p>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Bedrift / produkt</label>
+        <input className={inputClass} value={companyName} onChange={(e) => setCompanyName(e.target.value)} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Beskrivelse</label>
+        <textarea className={`${inputClass} h-20`} value={description} onChange={(e) => setDescription(e.target.value)} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Salgsargumenter (ett per linje)</label>
+        <textarea className={`${inputClass} h-28`} value={sellingPoints} onChange={(e) => setSellingPoints(e.target.value)} />
+        {product.citations && product.citations.length > 0 && (
+          <div className="mt-2 bg-gray-50 rounded-lg p-3">
+            <p className="text-xs font-semibold text-gray-500 mb-1">Kilder</p>
+            <ul className="space-y-1">
+              {product.citations.map((c, i) => (
+                <li key={i} className="text-xs text-gray-600">
+                  {c.sellingPoint} &ndash;{' '}
+                  {c.sourceUrl ? (
+                    <a href={c.sourceUrl} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline break-all">
+                      {shortUrl(c.sourceUrl)}
+                    </a>
+                  ) : (
+                    <span className="italic">{c.sourceDocument}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Pris (valgfritt)</label>
+        <input className={inputClass} placeholder="f.eks. 499 kr/mnd per bruker" value={pricing} onChange={(e) => setPricing(e.target.value)} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Konkurrenter (én per linje)</label>
+          <textarea className={`${inputClass} h-24`} value={competitors} onChange={(e) => setCompetitors(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Typiske innvendinger (én per linje)</label>
+          <textarea className={`${inputClass} h-24`} value={typicalObjections} onChange={(e) => setTypicalObjections(e.target.value)} />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Kundecaser (én per linje)</label>
+        <textarea className={`${inputClass} h-20`} value={caseStudies} onChange={(e) => setCaseStudies(e.target.value)} />
+      </div>
+      {documents.length > 0 && (
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Kildedokumenter (kunden og evaluatoren kan referere til disse)</label>
+          <ul className="space-y-1">
+            {documents.map(doc => (
+              <li key={doc.id} className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                <span className="truncate text-gray-700">{doc.name} <span className="text-xs text-gray-400">({doc.text.length} tegn)</span></span>
+                <button
+                  type="button"
+                  onClick={() => setDocuments(documents.filter(d => d.id !== doc.id))}
+                  className="text-gray-400 hover:text-red-600 text-xs ml-3"
+                >
+                  Fjern
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-between pt-2">
+        <button type="button" onClick={onCancel} className="px-5 py-2 text-gray-500 hover:text-gray-900 font-medium">
+          &larr; Tilbake
+        </button>
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            disabled={!isValid}
+            onClick={() => onUse(buildProduct())}
+            className="px-5 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Bruk uten å lagre
+          </button>
+          <button
+            type="button"
+            disabled={!isValid}
+            onClick={() => onSave(buildProduct())}
+            className="px-5 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Lagre og fortsett
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductEditor;
@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { loadSessions } from '../services/history';
+import { getActiveScorecard } from '../services/scorecards';
+import { ProgressPoint, summarizeProgress } from '../utils/progress';
+import { Scorecard } from '../types';
+
+interface Props {
+  onBack: () => void;
+}
+
+const ProgressDashboard: React.FC<Props> = ({ onBack }) => {
+  const [sessions] = useState(loadSessions);
+  const [productFilter, setProductFilter] = useState('');
+  // The category chart shows rolling averages by default; single sessions are noisy.
+  const [showRollingCategories, setShowRollingCategories] = useState(true);
+
+  // Sessions are newest first, so the first snapshot of each scorecard is its latest version.
+  const scorecards = useMemo(() => {
+    const byId = new Map<string, Scorecard>();
+    sessions.forEach(s => { if (!byId.has(s.scorecard.id)) byId.set(s.scorecard.id, s.scorecard); });
+    return Array.from(byId.values());
+  }, [sessions]);
+  const [scorecardId, setScorecardId] = useState(() => {
+    const active = getActiveScorecard().id;
+    return scorecards.some(s => s.id === active) ? active : scorecards[0]?.id ?? active;
+  });
+  const scorecard = scorecards.find(s => s.id === scorecardId) ?? getActiveScorecard();
+
+  const productNames = useMemo(
+    () => Array.from(new Set(sessions.map(s => s.product.companyName))).sort(),
+    [sessions]
+  );
+
+  const summary = useMemo(
+    () => summarizeProgress(
+      sessions.filter(s =>
+        s.scorecard.id === scorecard.id && (!productFilter || s.product.companyName === productFilter)
+      ),
+      scorecard
+    ),
+    [sessions, productFilter, scorecard]
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 pb-20 space-y-6">
+      <div className="flex items-center justify-between mb-2">
+        <button onClick={onBack} className="text-gray-500 hover:text-gray-900 font-medium">
+          &larr; Tilbake
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Din fremgang</h2>
+        <div className="flex space-x-2">
+          {scorecards.length > 1 && (
+            <select
+              value={scorecard.id}
+              onChange={(e) => setScorecardId(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {scorecards.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          )}
+          <select
+            value={productFilter}
+            onChange={(e) => setProductFilter(e.target.value)}
+            className="p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">Alle produkter</option>
+            {productNames.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {summary.points.length === 0 ? (
+        <div className="text-center text-gray-500 py-16">
+          Ingen lagrede økter ennå. Fullfør noen samtaler for å se utviklingen din.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <p className="text-xs font-medium text-gray-500">Økter</p>
+              <p className="text-3xl font-bold text-gray-800">{summary.points.length}</p>
+            </div>
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <p className="text-xs font-medium text-gray-500">Snittscore</p>
+              <p className="text-3xl font-bold text-gray-800">
+                {summary.averageTotal}
+                <span className={`ml-2 text-sm font-semibold ${summary.trend >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {summary.trend >= 0 ? '▲' : '▼'} {Math.abs(summary.trend)}
+                </span>
+              </p>
+            </div>
+            <div className="bg-green-50 p-4 rounded-xl border border-green-100">
+              <p className="text-xs font-medium text-green-700">Personlig rekord</p>
+              <p className="text-3xl font-bold text-green-800">{summary.personalBest?.evaluation.totalScore}</p>
+              {summary.personalBest && (
+                <p className="text-xs text-green-700 truncate">
+                  {summary.personalBest.persona.name}, {new Date(summary.personalBest.date).toLocaleDateString('nb-NO')}
+                </p>
+              )}
+            </div>
+            <div className="bg-yellow-50 p-4 rounded-xl border border-yellow-100">
+              <p className="text-xs font-medium text-yellow-700">Svakeste kategori</p>
+              {summary.weakestCategory ? (
+                <>
+                  <p className="text-xl font-bold text-yellow-800">{summary.weakestCategory.name}</p>
+                  <p className="text-xs text-yellow-700">Snitt {summary.weakestCategory.average}/100 &ndash; øv mer på dette</p>
+                </>
+              ) : (
+                <p className="text-xs text-yellow-700 mt-2">Ingen kategorier er vurdert ennå.</p>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+            <h3 className="text-xl font-semibold mb-4">Total score over tid</h3>
+            <div style={{ width: '100%', height: 280 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={summary.points}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#F3F4F6" />
+                  <XAxis dataKey="label" fontSize={12} />
+                  <YAxis domain={[0, 100]} fontSize={12} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="totalScore" name="Total score" stroke="#2563EB" strokeWidth={2} dot />
+                  <Line type="monotone" dataKey="rollingAverage" name="Glidende snitt (3)" stroke="#9CA3AF" strokeDasharray="5 5" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-semibold">Kategorier over tid <span className="text-sm font-normal text-gray-400">({scorecard.name})</span></h3>
+              <div className="flex bg-gray-100 rounded-lg p-1">
+                <button
+                  onClick={() => setShowRollingCategories(true)}
+                  className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${showRollingCategories ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}
+                >
+                  Glidende snitt (3)
+                </button>
+                <button
+                  onClick={() => setShowRollingCategories(false)}
+                  className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${!showRollingCategories ? 'bg-white shadow text-blue-600' : 'text-gray-500'}`}
+                >
+                  Enkeltøkter
+                </button>
+              </div>
+            </div>
+            <div style={{ width: '100%', height: 320 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={summary.points}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#F3F4F6" />
+                  <XAxis dataKey="label" fontSize={12} />
+                  <YAxis domain={[0, 100]} fontSize={12} />
+                  <Tooltip />
+                  <Legend />
+                  {scorecard.criteria.map(c => (
+                    <Line
+                      key={c.id}
+                      type="monotone"
+                      dataKey={(p: ProgressPoint) => (showRollingCategories ? p.rollingScores : p.scores)[c.id]}
+                      name={c.name}
+                      stroke={c.color}
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            {summary.points.length > 1 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {scorecard.criteria.map(c => {
+                  const trend = summary.categoryTrends[c.id] ?? 0;
+                  return (
+                    <span key={c.id} className="text-xs px-2 py-1 rounded-full bg-gray-50 border border-gray-100 text-gray-700">
+                      {c.name}{' '}
+                      <span className={`font-semibold ${trend >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {trend >= 0 ? '▲' : '▼'} {Math.abs(trend)}
+                      </span>
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Persona, ProductContext, Scenario } from '../types';
+import { fillScenarioText, SCENARIOS } from '../services/scenarios';
+
+interface Props {
+  persona: Persona;
+  committee?: Persona[];
+  product: ProductContext;
+  onSelect: (scenario: Scenario) => void;
+  onBack: () => void;
+}
+
+const ScenarioSelector: React.FC<Props> = ({ persona, committee, product, onSelect, onBack }) => (
+  <div className="max-w-6xl mx-auto p-4">
+    <div className="flex items-center justify-between mb-2">
+      <button onClick={onBack} className="text-gray-500 hover:text-gray-900 font-medium">
+        &larr; Tilbake
+      </button>
+      <h2 className="text-2xl font-bold text-gray-800">Hva slags samtale?</h2>
+      <div className="w-16"></div>
+    </div>
+    <p className="text-center text-gray-500 mb-8">
+      Med {(committee ?? [persona]).map(p => `${p.name}, ${p.title}`).join(' · ')}
+    </p>
+
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {SCENARIOS.map(scenario => (
+        <div
+          key={scenario.id}
+          onClick={() => onSelect(scenario)}
+          className="bg-white rounded-xl shadow-md hover:shadow-xl transition-all cursor-pointer border border-transparent hover:border-blue-500 group p-6 flex flex-col"
+        >
+          <h3 className="text-lg font-bold text-gray-900 group-hover:text-blue-600">{scenario.name}</h3>
+          <p className="text-sm text-gray-500 mb-4">{scenario.description}</p>
+
+          <div className="text-sm mb-4">
+            <span className="font-semibold text-gray-700 block">Ditt mål:</span>
+            <p className="text-gray-600">{scenario.sellerGoal}</p>
+          </div>
+          <div className="text-sm flex-1">
+            <span className="font-semibold text-gray-700 block">Du lykkes hvis du:</span>
+            <ul className="text-gray-600 space-y-1 mt-1">
+              {scenario.successCriteria.map((c, i) => (
+                <li key={i}>• {fillScenarioText(c, persona, product)}</li>
+              ))}
+            </ul>
+          </div>
+
+          <span className="mt-6 pt-4 border-t border-gray-100 text-blue-600 font-semibold text-sm group-hover:translate-x-1 transition-transform text-right">
+            Start Samtale &rarr;
+          </span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default ScenarioSelector;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Scorecard, ScorecardCriterion } from '../types';
+import { CRITERION_COLORS, createCriterionId, createScorecardId } from '../services/scorecards';
+
+interface Props {
+  // Omit to create a new scorecard from scratch.
+  scorecard?: Scorecard;
+  onSave: (scorecard: Scorecard) => void;
+  onCancel: () => void;
+}
+
+const newCriterion = (index: number): ScorecardCriterion => ({
+  id: createCriterionId(),
+  name: '',
+  weight: 1,
+  description: '',
+  color: CRITERION_COLORS[index % CRITERION_COLORS.length],
+});
+
+const inputClass = "w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+const ScorecardEditor: React.FC<Props> = ({ scorecard, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Scorecard>(scorecard ?? {
+    id: createScorecardId(),
+    name: '',
+    description: '',
+    criteria: [newCriterion(0)],
+  });
+
+  const updateCriterion = (index: number, changes: Partial<ScorecardCriterion>) =>
+    setDraft(prev => ({
+      ...prev,
+      criteria: prev.criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }));
+
+  const removeCriterion = (index: number) =>
+    setDraft(prev => ({ ...prev, criteria: prev.criteria.filter((_, i) => i !== index) }));
+
+  const addCriterion = () =>
+    setDraft(prev => ({ ...prev, criteria: [...prev.criteria, newCriterion(prev.criteria.length)] }));
+
+  const totalWeight = draft.criteria.reduce((sum, c) => sum + c.weight, 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      criteria: draft.criteria.map(c => ({ ...c, name: c.name.trim(), description: c.description.trim() })),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-lg p-6 space-y-4 max-w-3xl mx-auto">
+      <h3 className="text-xl font-bold text-gray-800">{scorecard ? 'Rediger scorecard' : 'Ny scorecard'}</h3>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Navn</label>
+        <input required className={inputClass} placeholder="f.eks. Vår salgsprosess" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Beskrivelse</label>
+        <textarea className={`${inputClass} h-16`} value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold text-gray-700">Kriterier</h4>
+        {draft.criteria.map((criterion, idx) => (
+          <div key={criterion.id} className="border border-gray-200 rounded-lg p-3 space-y-2" style={{ borderLeft: `4px solid ${criterion.color}` }}>
+            <div className="flex space-x-2">
+              <input
+                required
+                className={inputClass}
+                placeholder="Navn på kriteriet"
+                value={criterion.name}
+                onChange={(e) => updateCriterion(idx, { name: e.target.value })}
+              />
+              <div className="w-28 flex-shrink-0">
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  className={inputClass}
+                  title="Vekt"
+                  value={criterion.weight}
+                  onChange={(e) => updateCriterion(idx, { weight: Math.max(0, Number(e.target.value)) })}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => removeCriterion(idx)}
+                disabled={draft.criteria.length === 1}
+                className="px-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                title="Fjern kriterium"
+              >
+                &times;
+              </button>
+            </div>
+            <textarea
+              required
+              className={`${inputClass} h-16`}
+              placeholder="Hva kjennetegner god utførelse? Dette er vurderingsgrunnlaget evaluatoren bruker."
+              value={criterion.description}
+              onChange={(e) => updateCriterion(idx, { description: e.target.value })}
+            />
+            <p className="text-xs text-gray-400">
+              Vekt {totalWeight > 0 ? Math.round(criterion.weight / totalWeight * 100) : 0}% av totalscoren
+            </p>
+          </div>
+        ))}
+        <button type="button" onClick={addCriterion} className="text-sm font-semibold text-blue-600 hover:text-blue-800">
+          + Legg til kriterium
+        </button>
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <button type="button" onClick={onCancel} className="px-5 py-2 bg-white border border-gray-300 text-gray-700 font-semibold rounded-lg hover:bg-gray-50">
+          Avbryt
+        </button>
+        <button
+          type="submit"
+          disabled={totalWeight <= 0}
+          className="px-5 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          Lagre
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ScorecardEditor;
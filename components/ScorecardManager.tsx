@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Scorecard } from '../types';
+import { duplicateScorecard, getActiveScorecard, loadScorecards, removeScorecard, saveScorecard } from '../services/scorecards';
+import { loadSettings, saveSettings } from '../services/settings';
+import ScorecardEditor from './ScorecardEditor';
+import EvaluationCorpusPanel from './EvaluationCorpusPanel';
+
+interface Props {
+  onBack: () => void;
+}
+
+const SAMPLE_OPTIONS = [1, 3, 5];
+
+// Pick the methodology new sessions are evaluated with, and maintain the team's own playbooks.
+const ScorecardManager: React.FC<Props> = ({ onBack }) => {
+  const [scorecards, setScorecards] = useState<Scorecard[]>(loadScorecards);
+  const [activeId, setActiveId] = useState(() => getActiveScorecard().id);
+  const [samples, setSamples] = useState(() => loadSettings().evaluationSamples);
+  // null: list view, undefined: creating a new scorecard.
+  const [editing, setEditing] = useState<Scorecard | undefined | null>(null);
+
+  const activate = (id: string) => {
+    setActiveId(id);
+    saveSettings({ ...loadSettings(), scorecardId: id });
+  };
+
+  const changeSamples = (value: number) => {
+    setSamples(value);
+    saveSettings({ ...loadSettings(), evaluationSamples: value });
+  };
+
+  const handleSave = (scorecard: Scorecard) => {
+    saveScorecard(scorecard);
+    setScorecards(loadScorecards());
+    setEditing(null);
+  };
+
+  const handleDuplicate = (scorecard: Scorecard) => {
+    saveScorecard(duplicateScorecard(scorecard));
+    setScorecards(loadScorecards());
+  };
+
+  const handleRemove = (scorecard: Scorecard) => {
+    if (!confirm(`Vil du slette «${scorecard.name}»? Tidligere økter beholder sin vurdering.`)) return;
+    removeScorecard(scorecard.id);
+    if (scorecard.id === activeId) activate(getActiveScorecard().id);
+    setScorecards(loadScorecards());
+  };
+
+  if (editing !== null) {
+    return (
+      <div className="p-4 pb-20">
+        <ScorecardEditor scorecard={editing} onSave={handleSave} onCancel={() => setEditing(null)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto p-4 pb-20">
+      <div className="flex items-center justify-between mb-8">
+        <button onClick={onBack} className="text-gray-500 hover:text-gray-900 font-medium">
+          &larr; Tilbake
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Salgsmetodikk</h2>
+        <button
+          onClick={() => setEditing(undefined)}
+          className="px-3 py-1 text-sm font-semibold text-blue-600 hover:text-blue-800"
+        >
+          + Ny scorecard
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        Nye økter evalueres etter den valgte metodikken. Fremgangen vises per metodikk.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {scorecards.map(scorecard => (
+          <div
+            key={scorecard.id}
+            className={`bg-white rounded-xl shadow-sm p-5 border-2 transition-colors ${scorecard.id === activeId ? 'border-blue-500' : 'border-transparent'}`}
+          >
+            <div className="flex items-start justify-between mb-2">
+              <div>
+                <h3 className="font-bold text-gray-900">{scorecard.name}</h3>
+                <p className="text-xs text-gray-500">{scorecard.description}</p>
+              </div>
+              {scorecard.id === activeId ? (
+                <span className="text-xs font-semibold text-blue-600 whitespace-nowrap">I bruk</span>
+              ) : (
+                <button
+                  onClick={() => activate(scorecard.id)}
+                  className="text-xs font-semibold text-gray-500 hover:text-blue-600 whitespace-nowrap"
+                >
+                  Bruk denne
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2 my-3">
+              {scorecard.criteria.map(c => (
+                <span key={c.id} className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700 flex items-center" title={c.description}>
+                  <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: c.color }}></span>
+                  {c.name}
+                </span>
+              ))}
+            </div>
+            <div className="flex space-x-3 text-xs font-semibold">
+              {!scorecard.builtIn && (
+                <button onClick={() => setEditing(scorecard)} className="text-gray-500 hover:text-blue-600">Rediger</button>
+              )}
+              <button onClick={() => handleDuplicate(scorecard)} className="text-gray-500 hover:text-blue-600">Dupliser</button>
+              {!scorecard.builtIn && (
+                <button onClick={() => handleRemove(scorecard)} className="text-gray-500 hover:text-red-600">Slett</button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <h3 className="text-lg font-bold text-gray-800 mt-10 mb-4">Pålitelighet</h3>
+      <div className="space-y-4">
+        <div className="bg-white rounded-xl shadow-sm p-5 flex items-center justify-between">
+          <div>
+            <h4 className="font-bold text-gray-900">Antall vurderinger per økt</h4>
+            <p className="text-xs text-gray-500">
+              Flere vurderinger gir medianscore og viser hvor enige de var, men tar lengre tid.
+            </p>
+          </div>
+          <select
+            value={samples}
+            onChange={(e) => changeSamples(Number(e.target.value))}
+            className="p-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {SAMPLE_OPTIONS.map(n => <option key={n} value={n}>{n === 1 ? '1 (raskest)' : `${n} (median)`}</option>)}
+          </select>
+        </div>
+        <EvaluationCorpusPanel samples={samples} />
+      </div>
+    </div>
+  );
+};
+
+export default ScorecardManager;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { ChatMessage, Persona, SessionHistory } from '../types';
+import { speakerOf } from '../utils/committee';
+
+interface Props {
+  parent: SessionHistory;
+  // A session forked from `parent`.
+  branch: SessionHistory;
+  onBack: () => void;
+}
+
+const scoreColor = (score: number) =>
+  score > 70 ? 'text-green-600' : score > 40 ? 'text-yellow-600' : 'text-red-600';
+
+const buyersOf = (session: SessionHistory) => session.committee ?? [session.persona];
+
+// `buyers` starts with the lead persona, who speaks unless a line says otherwise.
+const Transcript: React.FC<{ messages: ChatMessage[]; buyers: Persona[] }> = ({ messages, buyers }) => (
+  <div className="space-y-3">
+    {messages.map((msg, idx) => (
+      <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+        <div className={`max-w-[90%] rounded-2xl px-4 py-2 text-sm ${msg.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'}`}>
+          <span className="block text-xs font-semibold opacity-70 mb-1">{msg.role === 'user' ? 'Deg' : (speakerOf(msg, buyers) ?? buyers[0]).name}</span>
+          {msg.text}
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+// Puts a session and one of its forks next to each other: the shared opening
+// once, then how each version played out from the fork point.
+const SessionCompare: React.FC<Props> = ({ parent, branch, onBack }) => {
+  const [showShared, setShowShared] = useState(false);
+  const forkedAt = branch.fork?.forkedAt ?? 0;
+  const shared = branch.transcript.slice(0, forkedAt);
+  // Criterion scores only line up when both were evaluated with the same scorecard.
+  const sameScorecard = parent.scorecard.id === branch.scorecard.id;
+
+  const columns = [
+    { label: 'Original', session: parent },
+    { label: 'Forgrening', session: branch },
+  ];
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 pb-20 space-y-6">
+      <div className="flex items-center justify-between mb-2">
+        <button onClick={onBack} className="text-gray-500 hover:text-gray-900 font-medium">
+          &larr; Tilbake
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Sammenlign forgrening</h2>
+        <div className="w-16"></div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-medium pb-2"></th>
+              {columns.map(({ label, session }) => (
+                <th key={session.id} className="font-medium pb-2 text-right">
+                  {label}
+                  <span className="block text-xs font-normal">{new Date(session.date).toLocaleString('nb-NO')}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-t border-gray-100">
+              <td className="py-2 font-semibold text-gray-800">Total score</td>
+              {columns.map(({ session }) => (
+                <td key={session.id} className={`py-2 text-right text-xl font-bold ${scoreColor(session.evaluation.totalScore)}`}>
+                  {session.evaluation.totalScore}
+                </td>
+              ))}
+            </tr>
+            {sameScorecard && parent.scorecard.criteria.map(c => (
+              <tr key={c.id} className="border-t border-gray-100">
+                <td className="py-2 text-gray-700">{c.name}</td>
+                {columns.map(({ session }) => (
+                  <td key={session.id} className="py-2 text-right font-semibold text-gray-900">{session.evaluation.scores[c.id]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!sameScorecard && (
+          <p className="text-xs text-gray-400 mt-2">
+            Øktene er evaluert med ulike scorecards ({parent.scorecard.name} og {branch.scorecard.name}), så bare totalscoren sammenlignes.
+          </p>
+        )}
+      </div>
+
+      {shared.length > 0 && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+          <button onClick={() => setShowShared(!showShared)} className="w-full flex justify-between items-center font-semibold">
+            <span>Felles start</span>
+            <span className="text-sm text-gray-500">{showShared ? 'Skjul' : `Vis (${shared.length} meldinger)`}</span>
+          </button>
+          {showShared && (
+            <div className="mt-4">
+              <Transcript messages={shared} buyers={buyersOf(parent)} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {columns.map(({ label, session }) => (
+          <div key={session.id} className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+            <h3 className="font-semibold mb-4">{label}</h3>
+            <Transcript messages={session.transcript.slice(forkedAt)} buyers={buyersOf(session)} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionCompare;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { SpeechMetrics } from '../types';
+
+interface Props {
+  metrics: SpeechMetrics;
+}
+
+const formatSeconds = (ms: number) => `${Math.round(ms / 1000)} s`;
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-gray-50 rounded-xl p-4">
+    <p className="text-xs font-medium text-gray-500">{label}</p>
+    <p className="text-2xl font-bold text-gray-900">{value}</p>
+    {hint && <p className="text-xs text-gray-400 mt-1">{hint}</p>}
+  </div>
+);
+
+const SpeechMetricsCard: React.FC<Props> = ({ metrics }) => {
+  const sellerShare = metrics.talkRatio !== undefined ? Math.round(metrics.talkRatio * 100) : null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
+      <h3 className="text-xl font-semibold mb-4">Samtaleanalyse</h3>
+
+      {sellerShare !== null && (
+        <div className="mb-6">
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-medium text-blue-700">Deg {sellerShare}%</span>
+            <span className="font-medium text-gray-500">Kunden {100 - sellerShare}%</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-3 flex overflow-hidden">
+            <div className="bg-blue-600 h-3" style={{ width: `${sellerShare}%` }}></div>
+          </div>
+          <p className="text-xs text-gray-400 mt-1">
+            Taletid: {formatSeconds(metrics.sellerTalkMs ?? 0)} mot {formatSeconds(metrics.buyerTalkMs ?? 0)}.
+            {sellerShare > 60 ? ' Du snakket mye – la kunden komme mer til orde.' : ''}
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {metrics.wordsPerMinute !== undefined && (
+          <Stat label="Tempo" value={`${metrics.wordsPerMinute} ord/min`} hint="Rolig og tydelig er ca. 130–160" />
+        )}
+        {metrics.longestMonologueMs !== undefined && (
+          <Stat label="Lengste monolog" value={formatSeconds(metrics.longestMonologueMs)} />
+        )}
+        {metrics.interruptions !== undefined && (
+          <Stat label="Snakket i munnen på kunden" value={`${metrics.interruptions}`} />
+        )}
+        <Stat label="Spørsmål stilt" value={`${metrics.questionCount}`} />
+        <Stat
+          label="Fyllord"
+          value={`${metrics.fillerWordTotal}`}
+          hint={metrics.fillerWords.slice(0, 3).map(f => `«${f.word}» ×${f.count}`).join(', ') || undefined}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SpeechMetricsCard;
@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
 import { extractProductInfo } from '../services/gemini';
-import { ProductContext } from '../types';
+import { ProductContext, SourceDocument } from '../types';
+import { AiError } from '../services/errors';
+import { loadProductCatalog, removeProductFromCatalog, saveProductToCatalog } from '../services/productCatalog';
+import { ACCEPTED_DOCUMENT_TYPES, createPastedDocument, readDocumentFile } from '../utils/documents';
+import AiErrorNotice from './AiErrorNotice';
+import ProductEditor from './ProductEditor';
 
 interface Props {
   onComplete: (data: ProductContext) => void;
@@ -10,68 +15,195 @@ const UrlAnalyzer: React.FC<Props> = ({ onComplete }) => {
   const [url, setUrl] = useState('');
   const [manualText, setManualText] = useState('');
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<AiError | null>(null);
+  const [catalog, setCatalog] = useState<ProductContext[]>(loadProductCatalog);
+  // Extracted or saved product currently being reviewed before use.
+  const [review, setReview] = useState<ProductContext | null>(null);
+  const [documents, setDocuments] = useState<SourceDocument[]>([]);
+  const [documentError, setDocumentError] = useState('');
+  const [readingFiles, setReadingFiles] = useState(false);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setReadingFiles(true);
+    setDocumentError('');
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        const doc = await readDocumentFile(file);
+        setDocuments(prev => [...prev, doc]);
+      } catch (err) {
+        console.error("Error reading document:", err);
+        failures.push(err instanceof Error ? err.message : file.name);
+      }
+    }
+    setDocumentError(failures.join('. '));
+    setReadingFiles(false);
+  };
+
+  const handlePasteAsDocument = () => {
+    if (!manualText.trim()) return;
+    setDocuments(prev => [...prev, createPastedDocument(manualText, prev.filter(d => d.kind === 'pasted').length + 1)]);
+    setManualText('');
+  };
+
+  const analyze = async () => {
     setLoading(true);
-    try {
-      const data = await extractProductInfo(url, manualText);
-      onComplete(data);
-    } catch (err) {
-      alert("Noe gikk galt under analysen. Prøv igjen.");
-    } finally {
-      setLoading(false);
+    setError(null);
+    const result = await extractProductInfo(url, manualText, documents);
+    setLoading(false);
+    if (result.ok) {
+      setReview(result.value);
+    } else {
+      setError(result.error);
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    analyze();
+  };
+
+  const handleSave = (product: ProductContext) => {
+    onComplete(saveProductToCatalog(product));
+  };
+
+  const handleRemove = (product: ProductContext) => {
+    if (!product.id || !confirm(`Slette ${product.companyName} fra katalogen?`)) return;
+    removeProductFromCatalog(product.id);
+    setCatalog(loadProductCatalog());
+  };
+
+  if (review) {
+    return (
+      <ProductEditor
+        product={review}
+        onSave={handleSave}
+        onUse={onComplete}
+        onCancel={() => setReview(null)}
+      />
+    );
+  }
+
   return (
-    <div className="max-w-2xl mx-auto p-6 bg-white rounded-xl shadow-lg mt-10">
-      <h2 className="text-2xl font-bold mb-4 text-gray-800">Hva skal du selge?</h2>
-      <p className="text-gray-600 mb-6">Lim inn en URL til produktet eller bedriften din, så henter vi informasjonen automatisk.</p>
+    <div className="max-w-2xl mx-auto pb-10">
+      <div className="p-6 bg-white rounded-xl shadow-lg mt-10">
+        <h2 className="text-2xl font-bold mb-4 text-gray-800">Hva skal du selge?</h2>
+        <p className="text-gray-600 mb-6">Lim inn en URL til produktet eller bedriften din, eller last opp produktark og battle cards, så henter vi informasjonen automatisk.</p>
       
-      <form onSubmit={handleSubmit} className="space-y-4">
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">Nettside URL</label>
-          <input
-            type="url"
-            required
-            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
-            placeholder="https://minbedrift.no/produkt"
-            value={url}
-            onChange={(e) => setUrl(e.target.value)}
-          />
-        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nettside URL{documents.length > 0 && ' (valgfritt)'}</label>
+            <input
+              type="url"
+              required={documents.length === 0}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              placeholder="https://minbedrift.no/produkt"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">Tilleggsinformasjon (valgfritt)</label>
-          <textarea
-            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none h-24"
-            placeholder="Kopier inn tekst fra nettsiden hvis URL-en er låst, eller skriv litt om hva du selger..."
-            value={manualText}
-            onChange={(e) => setManualText(e.target.value)}
-          />
-        </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tilleggsinformasjon (valgfritt)</label>
+            <textarea
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none h-24"
+              placeholder="Kopier inn tekst fra nettsiden hvis URL-en er låst, eller skriv litt om hva du selger..."
+              value={manualText}
+              onChange={(e) => setManualText(e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={handlePasteAsDocument}
+              disabled={!manualText.trim()}
+              className="mt-1 text-xs text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+            >
+              Legg ved teksten som et kildedokument
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Produktdokumenter (valgfritt)</label>
+            <label className="flex items-center justify-center w-full p-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-500 text-sm text-gray-500">
+              {readingFiles ? 'Leser dokumenter...' : 'Velg PDF, DOCX, Markdown eller tekstfiler'}
+              <input type="file" multiple accept={ACCEPTED_DOCUMENT_TYPES} onChange={handleFiles} className="hidden" />
+            </label>
+            {documentError && <p className="text-xs text-red-600 mt-1">{documentError}</p>}
+            {documents.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {documents.map(doc => (
+                  <li key={doc.id} className="flex items-center justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                    <span className="truncate text-gray-700">{doc.name} <span className="text-xs text-gray-400">({doc.text.length} tegn)</span></span>
+                    <button
+                      type="button"
+                      onClick={() => setDocuments(documents.filter(d => d.id !== doc.id))}
+                      className="text-gray-400 hover:text-red-600 text-xs ml-3"
+                    >
+                      Fjern
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
 
-        <button
-          type="submit"
-          disabled={loading}
-          className={`w-full py-3 px-4 rounded-lg text-white font-semibold transition-colors ${
-            loading ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
-          }`}
-        >
-          {loading ? (
-            <span className="flex items-center justify-center">
-              <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              Analyserer...
-            </span>
-          ) : (
-            'Generer Trenings-Personas'
+          {error && (
+            <AiErrorNotice
+              error={error}
+              title="Kunne ikke analysere produktet"
+              onRetry={analyze}
+            />
           )}
-        </button>
-      </form>
+
+          <button
+            type="submit"
+            disabled={loading || readingFiles}
+            className={`w-full py-3 px-4 rounded-lg text-white font-semibold transition-colors ${
+              loading ? 'bg-blue-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {loading ? (
+              <span className="flex items-center justify-center">
+                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                Analyserer...
+              </span>
+            ) : (
+              'Generer Trenings-Personas'
+            )}
+          </button>
+        </form>
+      </div>
+
+      {catalog.length > 0 && (
+        <div className="mt-8">
+          <h3 className="text-lg font-bold text-gray-800 mb-3">Eller velg et lagret produkt</h3>
+          <div className="space-y-3">
+            {catalog.map(product => (
+              <div key={product.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-4 flex items-center justify-between">
+                <div className="min-w-0 mr-4">
+                  <h4 className="font-bold text-gray-900 truncate">{product.companyName}</h4>
+                  <p className="text-xs text-gray-500 truncate">{product.description}</p>
+                </div>
+                <div className="flex items-center space-x-3 text-sm shrink-0">
+                  <button onClick={() => handleRemove(product)} className="text-gray-400 hover:text-red-600">Slett</button>
+                  <button onClick={() => setReview(product)} className="text-gray-500 hover:text-blue-600 font-medium">Rediger</button>
+                  <button
+                    onClick={() => onComplete(product)}
+                    className="px-4 py-1.5 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700"
+                  >
+                    Bruk
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,91 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Persona } from '../types';
+import { getProvider } from '../services/providers';
+import { buildVoicePreviewText, voicePreviewLine } from '../services/prompts';
+import { resolveVoice } from '../services/voices';
+import { base64ToUint8Array, createAudioContext, decodeAudioData } from '../utils/audio';
+
+interface Props {
+  persona: Persona;
+  className?: string;
+}
+
+// Browser speech only approximates the rate, for backends without text-to-speech.
+const BROWSER_RATES = { slow: 0.85, normal: 1, fast: 1.2 };
+
+const describeVoiceChoice = (persona: Persona) => {
+  const { voiceName, dialect } = resolveVoice(persona);
+  return dialect ? `${voiceName}, ${dialect.toLowerCase()}` : voiceName;
+};
+
+// Plays a short sample of how the persona will sound in a call.
+const VoicePreviewButton: React.FC<Props> = ({ persona, className }) => {
+  const [state, setState] = useState<'idle' | 'loading' | 'playing'>('idle');
+  const contextRef = useRef<AudioContext | null>(null);
+  const provider = useMemo(() => getProvider(), []);
+
+  useEffect(() => () => {
+    contextRef.current?.close();
+    window.speechSynthesis?.cancel();
+  }, []);
+
+  const play = async () => {
+    if (state !== 'idle') return;
+    const voice = resolveVoice(persona);
+
+    if (!provider.synthesizeSpeech) {
+      // Not every browser has speech synthesis; the button is hidden then (see below).
+      if (!window.speechSynthesis) return;
+      // Browser voices would read the delivery hints aloud, so they only get the line itself.
+      const utterance = new SpeechSynthesisUtterance(voicePreviewLine(persona));
+      utterance.lang = 'nb-NO';
+      utterance.rate = BROWSER_RATES[voice.speakingRate];
+      utterance.onend = () => setState('idle');
+      utterance.onerror = (event) => {
+        console.error('Voice preview failed:', event.error);
+        setState('idle');
+      };
+      setState('playing');
+      try {
+        window.speechSynthesis.speak(utterance);
+      } catch (error) {
+        console.error('Voice preview failed:', error);
+        setState('idle');
+      }
+      return;
+    }
+
+    setState('loading');
+    try {
+      const audio = await provider.synthesizeSpeech(buildVoicePreviewText(persona), voice.voiceName);
+      contextRef.current?.close();
+      const ctx = createAudioContext({ sampleRate: 24000 });
+      contextRef.current = ctx;
+      const source = ctx.createBufferSource();
+      source.buffer = await decodeAudioData(base64ToUint8Array(audio), ctx);
+      source.connect(ctx.destination);
+      source.onended = () => setState('idle');
+      setState('playing');
+      source.start();
+    } catch (error) {
+      console.error('Voice preview failed:', error);
+      setState('idle');
+    }
+  };
+
+  if (!provider.synthesizeSpeech && !window.speechSynthesis) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={play}
+      disabled={state !== 'idle'}
+      className={className}
+      title={`Stemme: ${describeVoiceChoice(persona)}`}
+    >
+      {state === 'loading' ? 'Henter...' : state === 'playing' ? '🔊 Spiller' : '▶ Hør stemmen'}
+    </button>
+  );
+};
+
+export default VoicePreviewButton;
@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VadSettings } from '../types';
+import { loadSettings, saveSettings } from '../services/settings';
+import { CapturePipeline, startCapture } from '../utils/captureWorklet';
+import { estimateNoiseFloor } from '../utils/vad';
+import { createAudioContext } from '../utils/audio';
+
+const CALIBRATION_MS = 2000;
+
+// Microphone calibration and voice detection settings, shown before a call starts.
+const VoiceSettingsPanel: React.FC = () => {
+  const [vad, setVad] = useState<VadSettings>(() => loadSettings().vad);
+  const [calibrating, setCalibrating] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState('');
+  const stopRef = useRef<(() => void) | null>(null);
+  const mountedRef = useRef(true);
+  // Latest settings, so calibration finishing later doesn't undo slider changes made meanwhile.
+  const vadRef = useRef(vad);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      stopRef.current?.();
+    };
+  }, []);
+
+  const update = (changes: Partial<VadSettings>) => {
+    const next = { ...vadRef.current, ...changes };
+    vadRef.current = next;
+    setVad(next);
+    saveSettings({ ...loadSettings(), vad: next });
+  };
+
+  const calibrate = async () => {
+    setCalibrating(true);
+    setError('');
+    let stream: MediaStream | null = null;
+    let ctx: AudioContext | null = null;
+    let capture: CapturePipeline | null = null;
+    // Runs on unmount and again in `finally`, so it forgets what it has released.
+    const stop = () => {
+      capture?.stop();
+      stream?.getTracks().forEach(track => track.stop());
+      ctx?.close();
+      capture = null;
+      stream = null;
+      ctx = null;
+      stopRef.current = null;
+    };
+    stopRef.current = stop;
+
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+      });
+      // Closed while waiting for permission: `finally` releases the stream.
+      if (!mountedRef.current) return;
+      ctx = createAudioContext();
+      const levels: number[] = [];
+      capture = await startCapture(ctx, stream, ({ rms }) => {
+        levels.push(rms);
+        // Calibration is short, so updating state per chunk is fine here.
+        setLevel(Math.min(1, rms * 5));
+      });
+      await new Promise(resolve => setTimeout(resolve, CALIBRATION_MS));
+      if (mountedRef.current) update({ noiseFloor: estimateNoiseFloor(levels) });
+    } catch (err) {
+      console.error("Calibration failed", err);
+      if (mountedRef.current) setError("Fikk ikke tilgang til mikrofonen.");
+    } finally {
+      stop();
+      if (mountedRef.current) {
+        setLevel(0);
+        setCalibrating(false);
+      }
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/80 rounded-2xl p-5 w-full max-w-md text-left space-y-4 border border-white/10">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Mikrofon</h3>
+        <button
+          onClick={calibrate}
+          disabled={calibrating}
+          className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+        >
+          {calibrating ? 'Vær stille...' : 'Kalibrer'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">
+        {calibrating
+          ? 'Måler bakgrunnsstøy i to sekunder.'
+          : vad.noiseFloor !== undefined
+            ? `Støynivå målt: ${(vad.noiseFloor * 1000).toFixed(1)}. Talegjenkjenningen justerer seg også underveis.`
+            : 'Ikke kalibrert. Kalibrer i rommet du skal ringe fra for best resultat.'}
+      </p>
+      {calibrating && (
+        <div className="w-full bg-gray-700 rounded-full h-1.5">
+          <div className="h-1.5 rounded-full bg-green-500" style={{ width: `${level * 100}%` }}></div>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div>
+        <label className="flex justify-between text-xs text-gray-400 mb-1">
+          <span>Følsomhet</span>
+          <span>{vad.sensitivity <= 2 ? 'Høy' : vad.sensitivity <= 4 ? 'Normal' : 'Lav'}</span>
+        </label>
+        {/* Slider runs from low to high sensitivity, i.e. a decreasing threshold multiplier */}
+        <input
+          type="range"
+          min={1.5}
+          max={6}
+          step={0.5}
+          value={7.5 - vad.sensitivity}
+          onChange={(e) => update({ sensitivity: 7.5 - Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+      <div>
+        <label className="flex justify-between text-xs text-gray-400 mb-1">
+          <span>Pause før du regnes som ferdig</span>
+          <span>{vad.hangoverMs} ms</span>
+        </label>
+        <input
+          type="range"
+          min={200}
+          max={1200}
+          step={100}
+          value={vad.hangoverMs}
+          onChange={(e) => update({ hangoverMs: Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+      <div>
+        <label className="flex justify-between text-xs text-gray-400 mb-1">
+          <span>Lyd tatt med før du begynner å snakke</span>
+          <span>{vad.preRollMs} ms</span>
+        </label>
+        <input
+          type="range"
+          min={0}
+          max={500}
+          step={50}
+          value={vad.preRollMs}
+          onChange={(e) => update({ preRollMs: Number(e.target.value) })}
+          className="w-full"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettingsPanel;
@@ -0,0 +1,75 @@
+// Writes the PCM fixtures the VAD tests run against (tests/fixtures/vad).
+// Same format as the capture worklet sends: 16 kHz mono PCM16, little endian.
+// The audio is synthesized from a fixed seed so the files are reproducible:
+//   node scripts/generate-vad-fixtures.mjs
+import { mkdirSync, writeFileSync } from 'fs';
+
+const RATE = 16000;
+const OUT_DIR = new URL('../tests/fixtures/vad/', import.meta.url);
+
+// Small deterministic PRNG (mulberry32).
+const random = (seed) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Gaussian-ish noise with the given RMS level.
+const noise = (seconds, rms, rand) => {
+  const out = new Float32Array(Math.round(seconds * RATE));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let k = 0; k < 4; k++) sum += rand() - 0.5;
+    out[i] = sum * rms * Math.sqrt(3);
+  }
+  return out;
+};
+
+// Voiced "syllables" (140 Hz with harmonics) of 180 ms separated by 70 ms gaps,
+// on top of the background noise, like a short spoken sentence.
+const speech = (seconds, rms, background, rand) => {
+  const out = noise(seconds, background, rand);
+  const syllable = 0.18 * RATE;
+  const period = 0.25 * RATE;
+  for (let i = 0; i < out.length; i++) {
+    const pos = i % period;
+    if (pos >= syllable) continue;
+    const envelope = Math.sin(Math.PI * pos / syllable);
+    const t = i / RATE;
+    const voiced = Math.sin(2 * Math.PI * 140 * t) + 0.5 * Math.sin(2 * Math.PI * 280 * t) + 0.25 * Math.sin(2 * Math.PI * 420 * t);
+    out[i] += voiced * envelope * rms * 1.6;
+  }
+  return out;
+};
+
+const toPcm16 = (parts) => {
+  const length = parts.reduce((n, p) => n + p.length, 0);
+  const pcm = Buffer.alloc(length * 2);
+  let offset = 0;
+  for (const part of parts) {
+    for (const s of part) {
+      const clamped = Math.max(-1, Math.min(1, s));
+      pcm.writeInt16LE(Math.round(clamped < 0 ? clamped * 0x8000 : clamped * 0x7FFF), offset);
+      offset += 2;
+    }
+  }
+  return pcm;
+};
+
+mkdirSync(OUT_DIR, { recursive: true });
+
+// 1 s quiet room, 1.5 s of speech, 1 s quiet room.
+const quiet = random(1);
+writeFileSync(new URL('quiet-room-speech.pcm', OUT_DIR), toPcm16([
+  noise(1, 0.004, quiet),
+  speech(1.5, 0.1, 0.004, quiet),
+  noise(1, 0.004, quiet),
+]));
+
+// 1 s quiet room, then a fan switches on and the room stays 10x louder for 4 s.
+const fan = random(2);
+writeFileSync(new URL('noise-rise.pcm', OUT_DIR), toPcm16([
+  noise(1, 0.004, fan),
+  noise(4, 0.04, fan),
+]));
@@ -0,0 +1,65 @@
+import { ProductContext, SourceDocument } from "../types";
+import { readList, writeList } from "../utils/storage";
+
+const STORAGE_KEY = 'salgstrener.documents';
+
+// Imported product documents hold up to MAX_DOCUMENT_CHARS of text each. They are
+// stored once here; saved products and sessions only keep a reference, so the
+// text isn't copied into every session snapshot and catalog entry.
+
+interface StoredDocument extends SourceDocument {
+  // Catalog products and sessions using the document. It is deleted with the last one.
+  owners: string[];
+}
+
+export type DocumentRef = Omit<SourceDocument, 'text'>;
+
+// A product as written to localStorage. Entries saved before the document store
+// existed still carry the text inline.
+export type StoredProduct = Omit<ProductContext, 'documents'> & {
+  documents?: (DocumentRef & { text?: string })[];
+};
+
+const loadStored = () => readList<StoredDocument>(STORAGE_KEY);
+
+// Records the product's documents as the ones `ownerId` uses, replacing what it used
+// before, and returns the product with references instead of the text.
+export const storeDocuments = (ownerId: string, product: ProductContext): StoredProduct => {
+  const documents = product.documents ?? [];
+  const ids = new Set(documents.map(d => d.id));
+  const stored = loadStored()
+    .map(doc => ids.has(doc.id) || !doc.owners.includes(ownerId)
+      ? doc
+      : { ...doc, owners: doc.owners.filter(o => o !== ownerId) })
+    .filter(doc => doc.owners.length > 0);
+
+  for (const doc of documents) {
+    const existing = stored.find(d => d.id === doc.id);
+    if (!existing) {
+      stored.push({ ...doc, owners: [ownerId] });
+    } else if (!existing.owners.includes(ownerId)) {
+      existing.owners = [...existing.owners, ownerId];
+    }
+  }
+  writeList(STORAGE_KEY, stored);
+
+  if (!product.documents) return product;
+  return { ...product, documents: documents.map(({ id, name, kind }) => ({ id, name, kind })) };
+};
+
+// Call when a product or session is deleted.
+export const releaseDocuments = (ownerId: string) => {
+  writeList(STORAGE_KEY, loadStored()
+    .map(doc => ({ ...doc, owners: doc.owners.filter(o => o !== ownerId) }))
+    .filter(doc => doc.owners.length > 0));
+};
+
+export const loadDocumentTexts = (): Map<string, string> =>
+  new Map(loadStored().map(doc => [doc.id, doc.text]));
+
+// Puts the text back into a stored product. A document that has gone missing keeps its name with empty text.
+export const withDocumentText = (product: StoredProduct, texts: Map<string, string>): ProductContext => {
+  const { documents, ...rest } = product;
+  if (!documents) return rest;
+  return { ...rest, documents: documents.map(doc => ({ ...doc, text: doc.text ?? texts.get(doc.id) ?? '' })) };
+};
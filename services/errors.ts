@@ -0,0 +1,65 @@
+export type AiErrorKind = 'network' | 'quota' | 'invalid_json' | 'schema' | 'unknown';
+
+export class AiError extends Error {
+  kind: AiErrorKind;
+  cause?: unknown;
+
+  constructor(kind: AiErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'AiError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+
+  // Quota and network failures are usually transient; a malformed answer may
+  // also come out right on a second attempt, so only unknown errors are final.
+  get retryable() {
+    return this.kind !== 'unknown';
+  }
+}
+
+// Both members declare both fields so callers can read them without narrowing
+// (the project does not compile with strictNullChecks).
+export type AiResult<T> =
+  | { ok: true; value: T; error?: undefined }
+  | { ok: false; value?: undefined; error: AiError };
+
+export const ok = <T>(value: T): AiResult<T> => ({ ok: true, value });
+export const fail = <T>(error: AiError): AiResult<T> => ({ ok: false, error });
+
+export const errorFromStatus = (status: number, message: string, cause?: unknown): AiError => {
+  if (status === 429) return new AiError('quota', message, cause);
+  if (status === 408 || status >= 500) return new AiError('network', message, cause);
+  return new AiError('unknown', message, cause);
+};
+
+// Maps whatever a provider threw (SDK errors, fetch failures, ...) onto our error kinds.
+export const classifyError = (error: unknown): AiError => {
+  if (error instanceof AiError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return errorFromStatus(status, message, error);
+
+  if (error instanceof SyntaxError) return new AiError('invalid_json', message, error);
+  if (/quota|rate limit|RESOURCE_EXHAUSTED|\b429\b/i.test(message)) return new AiError('quota', message, error);
+  if (error instanceof TypeError || /network|fetch|timeout|socket|offline/i.test(message)) {
+    return new AiError('network', message, error);
+  }
+  return new AiError('unknown', message, error);
+};
+
+export const describeAiError = (error: AiError): string => {
+  switch (error.kind) {
+    case 'network':
+      return "Fikk ikke kontakt med AI-tjenesten. Sjekk internettforbindelsen og prøv igjen.";
+    case 'quota':
+      return "AI-tjenesten har nådd kvotegrensen. Vent litt før du prøver igjen.";
+    case 'invalid_json':
+      return "AI-en svarte med et format vi ikke kunne lese.";
+    case 'schema':
+      return "AI-en svarte, men svaret manglet nødvendige felter.";
+    default:
+      return "Noe uventet gikk galt i kommunikasjonen med AI-en.";
+  }
+};
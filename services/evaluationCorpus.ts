@@ -0,0 +1,167 @@
+import { ChatMessage, Persona, ProductContext } from "../types";
+import { evaluateSession } from "./gemini";
+import { LlmProvider } from "./providers";
+import { STANDARD_SCORECARD } from "./scorecards";
+import { COLD_CALL_SCENARIO } from "./scenarios";
+
+// Labelled transcripts with the score bands a trustworthy evaluator should put
+// them in. Run them against a backend after changing prompts, models or
+// providers to catch scoring drift before reps notice it.
+
+type ScoreBand = [min: number, max: number];
+
+export interface CorpusCase {
+  id: string;
+  name: string;
+  transcript: ChatMessage[];
+  expectedTotal: ScoreBand;
+  // Criterion id (of the standard scorecard) -> expected band. Criteria left out are not checked.
+  expectedScores: Record<string, ScoreBand>;
+}
+
+export interface CorpusCheck {
+  label: string;
+  actual: number;
+  expected: ScoreBand;
+  passed: boolean;
+}
+
+export interface CorpusCaseResult {
+  caseId: string;
+  name: string;
+  // Set when the evaluation itself failed.
+  error?: string;
+  checks: CorpusCheck[];
+  passed: boolean;
+}
+
+const product: ProductContext = {
+  url: '',
+  companyName: 'Fjordsky Regnskap',
+  description: 'Skybasert regnskapssystem for små og mellomstore norske bedrifter.',
+  sellingPoints: [
+    'Automatisk bokføring av bilag med bankintegrasjon',
+    'Ferdig MVA-melding direkte til Altinn',
+    'Fast månedspris uten bindingstid',
+  ],
+  pricing: '890 kr per måned',
+};
+
+const persona: Persona = {
+  id: 'corpus-lars',
+  name: 'Lars Bakken',
+  title: 'Økonomisjef',
+  companySize: '45 ansatte',
+  industry: 'Byggevarehandel',
+  motivation: 'Ønsker bedre oversikt over likviditet.',
+  painPoints: 'Dagens system krever mye manuell avstemming.',
+  communicationStyle: 'Saklig og opptatt av tall.',
+  difficulty: 3,
+  avatarColor: 'bg-blue-500',
+};
+
+// Builds a transcript from alternating lines, starting with the buyer picking up.
+const conversation = (...lines: string[]): ChatMessage[] =>
+  lines.map((text, i) => ({ role: i % 2 === 0 ? 'model' : 'user', text, timestamp: i * 10_000 }));
+
+export const EVALUATION_CORPUS: CorpusCase[] = [
+  {
+    id: 'strong-discovery',
+    name: 'Grundig behovsavdekking og konkret avtale',
+    transcript: conversation(
+      'Lars Bakken.',
+      'Hei Lars, dette er Sofie fra Fjordsky Regnskap. Jeg ringer fordi flere byggevarehandlere vi jobber med har kuttet avstemmingstiden kraftig. Har du to minutter?',
+      'Ja, kort.',
+      'Takk. Hvordan jobber dere med avstemming og likviditetsoversikt i dag?',
+      'Vi eksporterer fra banken til Excel og avstemmer manuelt. Det tar et par dager hver måned.',
+      'Hva betyr de dagene for deg, konkret? Hva er det du ikke rekker?',
+      'Jeg får tallene for sent til å styre innkjøpene, og vi har måttet bruke kassekreditten unødvendig.',
+      'Så den manuelle avstemmingen koster både tid og renter. Med automatisk bankintegrasjon avstemmes bilagene fortløpende, så du ser likviditeten daglig i stedet for månedlig.',
+      'Høres fint ut, men hva koster det? Vi har et system fra før.',
+      'Det er 890 kroner i måneden, uten binding. Hvis du sparer to dager avstemming og noe rente på kassekreditten, hva ville det vært verdt for dere?',
+      'Mer enn det, ja. Men jeg må ha med daglig leder på en slik beslutning.',
+      'Helt naturlig. Skal vi sette opp en halvtimes demo med dere begge torsdag klokka ti, med deres egne bankdata?',
+      'Torsdag klokka ti går fint. Send en invitasjon.',
+    ),
+    expectedTotal: [65, 100],
+    expectedScores: {
+      discoveryScore: [65, 100],
+      objectionHandlingScore: [55, 100],
+      closingScore: [65, 100],
+    },
+  },
+  {
+    id: 'feature-dump',
+    name: 'Produktmonolog uten spørsmål',
+    transcript: conversation(
+      'Lars Bakken.',
+      'Hei, Fjordsky her. Vi har et regnskapssystem med automatisk bokføring, bankintegrasjon, MVA-melding til Altinn, fakturering, lønn, rapporter og en app. Det er det beste på markedet og alle bytter til oss nå.',
+      'Ok. Vi har et system fra før.',
+      'Ja, men vårt er mye bedre. Det har også dashbord og integrasjon mot nettbanken, og MVA-meldingen går rett til Altinn.',
+      'Jeg har ikke tid til dette nå.',
+      'Jeg kan sende deg en brosjyre.',
+      'Gjør det. Ha det.',
+    ),
+    expectedTotal: [0, 40],
+    expectedScores: {
+      discoveryScore: [0, 25],
+      closingScore: [0, 35],
+    },
+  },
+  {
+    id: 'discount-on-objection',
+    name: 'Ok åpning, men gir rabatt ved første prisinnvending',
+    transcript: conversation(
+      'Lars Bakken.',
+      'Hei Lars, Sofie fra Fjordsky Regnskap. Jeg ringer fordi vi hjelper byggevarehandlere med å automatisere avstemming. Passer det med et par minutter?',
+      'Greit.',
+      'Bruker dere mye tid på avstemming i dag?',
+      'Ja, en del.',
+      'Da vil automatisk bankintegrasjon spare dere mye tid. Systemet koster 890 kroner i måneden.',
+      'Det høres dyrt ut.',
+      'Da kan jeg gi deg 40 prosent rabatt det første året, hvis du bestemmer deg i dag.',
+      'Jeg bestemmer meg ikke i dag. Send meg et tilbud.',
+      'Ok, jeg sender det på e-post.',
+    ),
+    expectedTotal: [25, 60],
+    expectedScores: {
+      openingScore: [45, 85],
+      objectionHandlingScore: [0, 35],
+    },
+  },
+];
+
+const check = (label: string, actual: number, expected: ScoreBand): CorpusCheck => ({
+  label,
+  actual,
+  expected,
+  passed: actual >= expected[0] && actual <= expected[1],
+});
+
+// Evaluates every case with the given backend (the configured one by default)
+// and compares the scores with the expected bands.
+export const runEvaluationCorpus = async (
+  { provider, samples = 1, onResult }: { provider?: LlmProvider; samples?: number; onResult?: (result: CorpusCaseResult) => void } = {}
+): Promise<CorpusCaseResult[]> => {
+  const results: CorpusCaseResult[] = [];
+  // One case at a time, to stay within rate limits on shared keys.
+  for (const corpusCase of EVALUATION_CORPUS) {
+    const evaluation = await evaluateSession(corpusCase.transcript, product, persona, COLD_CALL_SCENARIO, STANDARD_SCORECARD, { provider, samples });
+    let result: CorpusCaseResult;
+    if (!evaluation.ok) {
+      result = { caseId: corpusCase.id, name: corpusCase.name, error: evaluation.error.message, checks: [], passed: false };
+    } else {
+      const { scores, totalScore } = evaluation.value;
+      const checks = [
+        check('Total', totalScore, corpusCase.expectedTotal),
+        ...Object.entries(corpusCase.expectedScores).map(([id, band]) =>
+          check(STANDARD_SCORECARD.criteria.find(c => c.id === id)?.name ?? id, scores[id], band)
+        ),
+      ];
+      result = { caseId: corpusCase.id, name: corpusCase.name, checks, passed: checks.every(c => c.passed) };
+    }
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+};
@@ -1,160 +1,329 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ProductContext, Persona, EvaluationMetrics, ChatMessage } from "../types";
+import { ProductContext, Persona, EvaluationMetrics, ChatMessage, SourceDocument, Scorecard, Scenario } from "../types";
+import { getProvider, LlmProvider } from "./providers";
+import { StructuredRequest } from "./providers/types";
+import { AiError, AiResult, classifyError, fail, ok } from "./errors";
+import { validateEvaluation, validatePersonas, validateProductContext } from "./validation";
+import { describeProduct, SCORE_ANCHORS } from "./prompts";
+import { fillScenarioText } from "./scenarios";
+import { crawlProductSite } from "./webContent";
+import { withRetry } from "../utils/retry";
+import { combineEvaluations } from "../utils/scoreSamples";
+import { speakerOf } from "../utils/committee";
 
-// Use a factory function to ensure we grab the current environment variable
-// when the client is needed, avoiding initialization issues.
-export const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Evaluations run at temperature 0 with a fixed seed so the same transcript gets
+// the same scores. Extra runs for the median get a little temperature and their
+// own seed: still reproducible, but different enough to show how sure the model is.
+const EVALUATION_SEED = 7;
+const SAMPLED_EVALUATION_TEMPERATURE = 0.4;
 
-export const extractProductInfo = async (url: string, manualText: string): Promise<ProductContext> => {
-  const ai = getClient();
-  const prompt = `
+export interface EvaluationOptions {
+  // Number of evaluation runs; the median is reported when more than one.
+  samples?: number;
+  // Defaults to the configured backend; the regression corpus can target any.
+  provider?: LlmProvider;
+  // Every buyer in a multi-party session, the lead persona first. Each gets their own score.
+  committee?: Persona[];
+}
+
+// Sends a structured request with retries and turns every failure mode into a
+// typed AiError. `toValue` validates the parsed JSON (see validation.ts) and
+// throws a 'schema' error if it can't be repaired.
+const requestStructured = async <T>(
+  request: StructuredRequest,
+  toValue: (data: unknown) => T,
+  provider: LlmProvider = getProvider()
+): Promise<AiResult<T>> => {
+  try {
+    const value = await withRetry(async () => {
+      const text = await provider.generateStructured(request);
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        throw new AiError('invalid_json', `Invalid JSON in ${request.name} response`, error);
+      }
+      return toValue(data);
+    }, { shouldRetry: (error) => classifyError(error).retryable });
+    return ok(value);
+  } catch (error) {
+    const aiError = classifyError(error);
+    console.error(`Error in ${request.name} request:`, aiError);
+    return fail(aiError);
+  }
+};
+
+export const extractProductInfo = async (
+  url: string,
+  manualText: string,
+  documents: SourceDocument[] = []
+): Promise<AiResult<ProductContext>> => {
+  const pages = url ? await crawlProductSite(url) : [];
+
+  // With fetched pages or uploaded documents the model must work from their
+  // text and cite them; without, we fall back to the URL and the rep's own text.
+  const sections: string[] = [];
+  if (pages.length > 0) {
+    sections.push(`Her er innholdet fra nettsidene (hentet nå):
+    ${pages.map((page, i) => `[Side ${i + 1}] ${page.url} (${page.title})\n    ${page.text}`).join('\n\n    ')}`);
+  }
+  if (documents.length > 0) {
+    sections.push(`Her er produktdokumenter fra brukeren:
+    ${documents.map((doc, i) => `[Dokument ${i + 1}] ${doc.name}\n    ${doc.text}`).join('\n\n    ')}`);
+  }
+
+  const sourceSection = sections.length > 0
+    ? `
+    ${sections.join('\n\n    ')}
+
+    Tilleggstekst fra brukeren: "${manualText}"
+
+    Bruk KUN fakta fra kildene og tilleggsteksten. Ikke finn på salgsargumenter.
+    For hvert salgsargument, oppgi source: URL-en til siden eller navnet på dokumentet det kommer fra.`
+    : `
     Jeg trenger informasjon om bedriften eller produktet fra denne URL-en: ${url}.
-    
-    Hvis du ikke kan besøke URL-en, bruk følgende tilleggstekst fra brukeren til å forstå hva de selger:
+
+    Vi kunne ikke hente nettsiden, så bruk følgende tilleggstekst fra brukeren til å forstå hva de selger:
     "${manualText}"
 
+    Hvis du ikke kjenner bedriften og teksten ikke sier nok, hold deg til det som er sikkert og ikke finn på fakta.`;
+
+  const prompt = `${sourceSection}
+
     Analyser dette og returner et JSON-objekt med:
     - companyName: Navn på bedriften/produktet
     - description: Kort beskrivelse av hva de gjør (maks 2 setninger)
-    - sellingPoints: Liste med 3-5 unike salgsargumenter (USPs)
+    - sellingPoints: Liste med 3-5 unike salgsargumenter (USPs), hver med text og source
 
     Svar KUN med JSON.
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            companyName: { type: Type.STRING },
-            description: { type: Type.STRING },
-            sellingPoints: { type: Type.ARRAY, items: { type: Type.STRING } }
-          },
-          required: ['companyName', 'description', 'sellingPoints']
+  return requestStructured({
+    name: 'product_context',
+    prompt,
+    schema: {
+      type: 'object',
+      properties: {
+        companyName: { type: 'string' },
+        description: { type: 'string' },
+        sellingPoints: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              text: { type: 'string' },
+              source: { type: 'string', description: "URL of the page or name of the document the selling point was taken from, or empty" }
+            },
+            required: ['text', 'source']
+          }
         }
-      }
-    });
-
-    if (response.text) {
-        return JSON.parse(response.text) as ProductContext;
+      },
+      required: ['companyName', 'description', 'sellingPoints']
     }
-    throw new Error("No response from AI");
-  } catch (error) {
-    console.error("Error extracting info:", error);
-    // Fallback mock
-    return {
-      url,
-      companyName: "Ukjent Bedrift",
-      description: "Kunne ikke hente info automatisk. Bruker standard oppsett.",
-      sellingPoints: ["Kvalitet", "Service", "Innovasjon"]
-    };
-  }
+  }, (data) => ({
+    ...validateProductContext(data, url, pages.map(p => p.url), documents.map(d => d.name)),
+    ...(documents.length > 0 ? { documents } : {}),
+  }));
 };
 
-export const generatePersonas = async (product: ProductContext): Promise<Persona[]> => {
-  const ai = getClient();
+export const generatePersonas = async (product: ProductContext): Promise<AiResult<Persona[]>> => {
   const prompt = `
     Basert på følgende produkt/bedrift:
-    Navn: ${product.companyName}
-    Beskrivelse: ${product.description}
-    Salgsargumenter: ${product.sellingPoints.join(', ')}
+    ${describeProduct(product)}
 
     Generer 4 ulike "sales personas" som en selger kan trene på å ringe til.
     Varier vanskelighetsgrad (difficulty) fra 1 til 5.
+    Varier også kjønn og alder, og beskriv hvordan hver persona høres ut i telefonen (speakingStyle).
+    Gi noen av dem en norsk dialekt (dialect), f.eks. Bergensk eller Trøndersk; la feltet være tomt for de andre.
     
     Returner en liste i JSON format.
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              name: { type: Type.STRING },
-              title: { type: Type.STRING },
-              companySize: { type: Type.STRING },
-              industry: { type: Type.STRING },
-              motivation: { type: Type.STRING },
-              painPoints: { type: Type.STRING },
-              communicationStyle: { type: Type.STRING },
-              difficulty: { type: Type.INTEGER },
-              avatarColor: { type: Type.STRING, description: "A tailwind color class like 'bg-red-500' or 'bg-blue-500'" }
-            },
-            required: ['id', 'name', 'title', 'companySize', 'industry', 'motivation', 'painPoints', 'communicationStyle', 'difficulty', 'avatarColor']
-          }
-        }
+  return requestStructured({
+    name: 'personas',
+    prompt,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          title: { type: 'string' },
+          companySize: { type: 'string' },
+          industry: { type: 'string' },
+          motivation: { type: 'string' },
+          painPoints: { type: 'string' },
+          communicationStyle: { type: 'string' },
+          difficulty: { type: 'integer' },
+          avatarColor: { type: 'string', description: "A tailwind color class like 'bg-red-500' or 'bg-blue-500'" },
+          gender: { type: 'string', description: "'female' or 'male'" },
+          age: { type: 'integer' },
+          speakingStyle: { type: 'string', description: "How the persona sounds on the phone, e.g. 'tørr og avmålt'" },
+          dialect: { type: 'string', description: "Norwegian dialect, e.g. 'Bergensk', or empty" }
+        },
+        required: ['id', 'name', 'title', 'companySize', 'industry', 'motivation', 'painPoints', 'communicationStyle', 'difficulty', 'avatarColor', 'gender', 'age', 'speakingStyle', 'dialect']
       }
-    });
-
-    if (response.text) {
-        return JSON.parse(response.text) as Persona[];
     }
-    return [];
-  } catch (error) {
-    console.error("Error generating personas:", error);
-    return [];
-  }
+  }, validatePersonas);
 };
 
-export const evaluateSession = async (transcript: ChatMessage[], product: ProductContext, persona: Persona): Promise<EvaluationMetrics> => {
-  const ai = getClient();
-  const transcriptText = transcript.map(m => `${m.role}: ${m.text}`).join('\n');
-  
+export const evaluateSession = async (
+  transcript: ChatMessage[],
+  product: ProductContext,
+  persona: Persona,
+  scenario: Scenario,
+  scorecard: Scorecard,
+  { samples = 1, provider = getProvider(), committee = [] }: EvaluationOptions = {}
+): Promise<AiResult<EvaluationMetrics>> => {
+  const multiParty = committee.length > 1;
+  const speaker = (m: ChatMessage) => {
+    const buyer = speakerOf(m, committee);
+    return buyer ? ` (${buyer.name})` : '';
+  };
+  // Numbered so annotations can point at a message.
+  const transcriptText = transcript.map((m, i) => `[${i}] ${m.role}${speaker(m)}: ${m.text}`).join('\n');
+  const rubric = scorecard.criteria.map(c => `- ${c.id} «${c.name}» (vekt ${c.weight}): ${c.description}`).join('\n');
+  const fill = (text: string) => fillScenarioText(text, persona, product);
+
   const prompt = `
     Evaluer denne salgssamtalen.
     
-    Selger (User) prøver å selge ${product.companyName} til ${persona.name} (${persona.title}).
+    ${multiParty
+      ? `Selger (User) prøver å selge ${product.companyName} til en kjøpskomité:
+    ${committee.map(p => `- ${p.id}: ${p.name} (${p.title}). Motivasjon: ${p.motivation}. Smertepunkter: ${p.painPoints}.`).join('\n    ')}`
+      : `Selger (User) prøver å selge ${product.companyName} til ${persona.name} (${persona.title}).`}
+
+    Samtaletype: ${scenario.name}. ${fill(scenario.situation)}
+    Selgerens mål: ${scenario.sellerGoal}
+    ${scenario.evaluationFocus}
+
+    Produktinfo:
+    ${describeProduct(product)}
+
+    Vurder om selgeren brukte produktfakta, priser og kundecaser korrekt, og hvordan innvendingene ble håndtert.
     
     Transkripsjon:
     ${transcriptText}
 
-    Gi en score fra 0-100 på hver kategori og gi konstruktiv tilbakemelding.
+    Vurder samtalen etter salgsmetodikken «${scorecard.name}». ${scorecard.description}
+    Kriterier:
+${rubric}
+
+    Gi hvert kriterium en score fra 0-100 i "scores", med kriteriets id som nøkkel,
+    og gi konstruktiv tilbakemelding knyttet til metodikken.
+    Bruk denne skalaen for alle kriterier, og velg båndet som passer best før du finjusterer tallet:
+${SCORE_ANCHORS.map(anchor => `    - ${anchor}`).join('\n')}
+    Vurder bare det som faktisk skjedde i transkripsjonen. Et kriterium selgeren aldri kom til, får 0-20.
+    Vurder kriteriene i lys av samtaletypen og selgerens mål.
+
+    Sjekk så om selgeren nådde suksesskriteriene for samtaletypen, med "successCriteria":
+${scenario.successCriteria.map((c, i) => `    ${i}. ${fill(c)}`).join('\n')}
+    - index er nummeret foran kriteriet.
+    - met er true bare hvis transkripsjonen viser at kriteriet ble nådd.
+    - comment er én setning om hva som skjedde.
+    Ta med alle kriteriene.
+${multiParty ? `
+    Vurder til slutt hvor godt selgeren ivaretok hver deltaker i komiteen med "stakeholders", med deltakerens id
+    som nøkkel: score fra 0-100 for om selgeren fanget opp og svarte på deres mål og bekymringer, og comment med
+    én setning om hva som fungerte eller manglet. En deltaker selgeren overså eller bare snakket forbi, får lav score.
+` : ''}
+    Knytt i tillegg tilbakemeldingen til konkrete øyeblikk i samtalen med "annotations":
+    - messageIndex er nummeret i hakeparentes foran meldingen.
+    - category er id-en til kriteriet tilbakemeldingen gjelder.
+    - sentiment er "positive" for noe som fungerte godt, ellers "negative".
+    - comment er en kort, konkret kommentar, f.eks. "Her hoppet du over et behovsspørsmål".
+    Gi 3-8 annotasjoner, helst på selgerens meldinger.
+
+    Vis til slutt hvordan det kunne vært gjort bedre med "improvedReplies", for de 1-3 svakeste
+    replikkene til selgeren (role user):
+    - messageIndex er nummeret til selgerens replikk.
+    - reply er det selgeren kunne sagt i stedet, med egne ord og i samme situasjon. Tilpass svaret
+      til ${persona.name} sin stil og bruk bare produktfakta fra produktinfoen over.
+    - rationale er én setning om hvorfor dette svaret er bedre.
     Svar på norsk.
   `;
 
-  try {
-     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            openingScore: { type: Type.INTEGER },
-            discoveryScore: { type: Type.INTEGER },
-            pitchScore: { type: Type.INTEGER },
-            objectionHandlingScore: { type: Type.INTEGER },
-            closingScore: { type: Type.INTEGER },
-            totalScore: { type: Type.INTEGER },
-            goodPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-            improvementPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
-            nextSteps: { type: Type.ARRAY, items: { type: Type.STRING } }
+  const request = (run: number): StructuredRequest => ({
+    name: 'evaluation',
+    prompt,
+    sampling: run === 0
+      ? { temperature: 0, seed: EVALUATION_SEED }
+      : { temperature: SAMPLED_EVALUATION_TEMPERATURE, seed: EVALUATION_SEED + run },
+    schema: {
+      type: 'object',
+      properties: {
+        scores: {
+          type: 'object',
+          properties: Object.fromEntries(
+            scorecard.criteria.map(c => [c.id, { type: 'integer', description: c.name }])
+          ),
+          required: scorecard.criteria.map(c => c.id)
+        },
+        goodPoints: { type: 'array', items: { type: 'string' } },
+        improvementPoints: { type: 'array', items: { type: 'string' } },
+        nextSteps: { type: 'array', items: { type: 'string' } },
+        annotations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              messageIndex: { type: 'integer' },
+              category: { type: 'string' },
+              sentiment: { type: 'string' },
+              comment: { type: 'string' }
+            },
+            required: ['messageIndex', 'category', 'sentiment', 'comment']
+          }
+        },
+        successCriteria: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'integer' },
+              met: { type: 'boolean' },
+              comment: { type: 'string' }
+            },
+            required: ['index', 'met', 'comment']
+          }
+        },
+        ...(multiParty ? {
+          stakeholders: {
+            type: 'object',
+            properties: Object.fromEntries(committee.map(p => [p.id, {
+              type: 'object',
+              description: p.name,
+              properties: { score: { type: 'integer' }, comment: { type: 'string' } },
+              required: ['score', 'comment']
+            }])),
+            required: committee.map(p => p.id)
+          }
+        } : {}),
+        improvedReplies: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              messageIndex: { type: 'integer' },
+              reply: { type: 'string' },
+              rationale: { type: 'string' }
+            },
+            required: ['messageIndex', 'reply', 'rationale']
           }
         }
-      }
-    });
-
-    if (response.text) {
-        return JSON.parse(response.text) as EvaluationMetrics;
+      },
+      required: ['scores', 'goodPoints', 'improvementPoints', 'nextSteps']
     }
-    throw new Error("Evaluation failed");
-  } catch (error) {
-    console.error(error);
-    return {
-        openingScore: 0, discoveryScore: 0, pitchScore: 0, objectionHandlingScore: 0, closingScore: 0, totalScore: 0,
-        goodPoints: ["Kunne ikke evaluere"], improvementPoints: [], nextSteps: []
-    };
+  });
+
+  // One run at a time, like the evaluation corpus, so a multi-sample evaluation doesn't hit rate limits.
+  const requested = Math.max(1, samples);
+  const results: AiResult<EvaluationMetrics>[] = [];
+  for (let run = 0; run < requested; run++) {
+    results.push(await requestStructured(request(run), data => validateEvaluation(data, scorecard, transcript, scenario.successCriteria.map(fill), committee), provider));
   }
+  // A failed run only shrinks the sample, which the consistency info shows; the evaluation fails if none succeeded.
+  const evaluations = results.flatMap(r => (r.ok ? [r.value] : []));
+  if (evaluations.length === 0) return results[0];
+  return ok(combineEvaluations(evaluations, scorecard, requested));
 };
\ No newline at end of file
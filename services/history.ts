@@ -0,0 +1,51 @@
+import { SessionHistory } from "../types";
+import { createId, readList, writeList } from "../utils/storage";
+import { deleteRecording } from "./recordings";
+import { loadDocumentTexts, releaseDocuments, StoredProduct, storeDocuments, withDocumentText } from "./documentStore";
+import { STANDARD_SCORECARD } from "./scorecards";
+
+const STORAGE_KEY = 'salgstrener.sessions';
+
+type StoredSession = Omit<SessionHistory, 'product'> & { product: StoredProduct };
+
+const loadStoredSessions = () => readList<StoredSession>(STORAGE_KEY);
+
+// Sessions stored before scorecards existed have the five standard category
+// scores as top-level fields of the evaluation. They map onto the standard scorecard.
+const migrateSession = (session: SessionHistory): SessionHistory => {
+  if (session.evaluation.scores && session.scorecard) return session;
+  const legacy = session.evaluation as unknown as Record<string, number>;
+  return {
+    ...session,
+    scorecard: STANDARD_SCORECARD,
+    evaluation: {
+      ...session.evaluation,
+      scorecardId: STANDARD_SCORECARD.id,
+      scores: session.evaluation.scores ?? Object.fromEntries(
+        STANDARD_SCORECARD.criteria.map(c => [c.id, legacy[c.id] ?? 0])
+      ),
+    },
+  };
+};
+
+// Sessions are kept in localStorage so a rep's practice runs survive a refresh
+// and can be reviewed later from the History screen.
+export const loadSessions = (): SessionHistory[] => {
+  const texts = loadDocumentTexts();
+  return loadStoredSessions().map(s => migrateSession({ ...s, product: withDocumentText(s.product, texts) }));
+};
+
+export const createSessionId = () => createId('session');
+
+export const saveSession = (session: SessionHistory) => {
+  const others = loadStoredSessions().filter(s => s.id !== session.id);
+  const stored: StoredSession = { ...session, product: storeDocuments(session.id, session.product) };
+  // Newest first, which is also the order the History screen shows them in.
+  writeList(STORAGE_KEY, [stored, ...others]);
+};
+
+export const deleteSession = (id: string) => {
+  writeList(STORAGE_KEY, loadStoredSessions().filter(s => s.id !== id));
+  releaseDocuments(id);
+  deleteRecording(id);
+};
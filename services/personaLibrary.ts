@@ -0,0 +1,30 @@
+import { Persona } from "../types";
+import { createId, readList, writeList } from "../utils/storage";
+
+const STORAGE_KEY = 'salgstrener.personas';
+
+// Hand-made and pinned personas, reusable across products and visits.
+export const loadPersonaLibrary = (): Persona[] => readList<Persona>(STORAGE_KEY);
+
+export const createPersonaId = () => createId('persona');
+
+export const savePersonaToLibrary = (persona: Persona) => {
+  const library = loadPersonaLibrary();
+  const idx = library.findIndex(p => p.id === persona.id);
+  if (idx >= 0) {
+    library[idx] = persona;
+    writeList(STORAGE_KEY, library);
+  } else {
+    writeList(STORAGE_KEY, [...library, persona]);
+  }
+};
+
+export const removePersonaFromLibrary = (id: string) => {
+  writeList(STORAGE_KEY, loadPersonaLibrary().filter(p => p.id !== id));
+};
+
+export const duplicatePersona = (persona: Persona): Persona => ({
+  ...persona,
+  id: createPersonaId(),
+  name: `${persona.name} (kopi)`,
+});
@@ -0,0 +1,25 @@
+import { ProductContext } from "../types";
+import { createId, readList, writeList } from "../utils/storage";
+import { loadDocumentTexts, releaseDocuments, StoredProduct, storeDocuments, withDocumentText } from "./documentStore";
+
+const STORAGE_KEY = 'salgstrener.products';
+
+const loadStoredProducts = () => readList<StoredProduct>(STORAGE_KEY);
+
+// Reviewed products, so reps selling several products don't re-scrape a URL every session.
+export const loadProductCatalog = (): ProductContext[] => {
+  const texts = loadDocumentTexts();
+  return loadStoredProducts().map(p => withDocumentText(p, texts));
+};
+
+export const saveProductToCatalog = (product: ProductContext): ProductContext => {
+  const saved = product.id ? product : { ...product, id: createId('product') };
+  const others = loadStoredProducts().filter(p => p.id !== saved.id);
+  writeList(STORAGE_KEY, [storeDocuments(saved.id, saved), ...others]);
+  return saved;
+};
+
+export const removeProductFromCatalog = (id: string) => {
+  writeList(STORAGE_KEY, loadStoredProducts().filter(p => p.id !== id));
+  releaseDocuments(id);
+};
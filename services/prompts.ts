@@ -0,0 +1,191 @@
+import { ChatMessage, Persona, PersonaVoice, ProductContext, Scenario } from "../types";
+import { resolveVoice } from "./voices";
+import { fillScenarioText } from "./scenarios";
+import { firstName, speakerOf } from "../utils/committee";
+
+export type Channel = 'chat' | 'call';
+
+// Per-document budget, so a few long product sheets don't crowd out the rest of the prompt.
+const DOCUMENT_EXCERPT_CHARS = 3000;
+
+// Product facts shared by the persona, generation and evaluation prompts.
+// Optional catalog fields are only included when the rep filled them in.
+export const describeProduct = (product: ProductContext): string => {
+  const lines = [
+    `Navn: ${product.companyName}`,
+    `Beskrivelse: ${product.description}`,
+    `Salgsargumenter: ${product.sellingPoints.join(', ')}`,
+  ];
+  if (product.pricing) lines.push(`Pris: ${product.pricing}`);
+  if (product.competitors?.length) lines.push(`Konkurrenter: ${product.competitors.join(', ')}`);
+  if (product.typicalObjections?.length) lines.push(`Typiske innvendinger: ${product.typicalObjections.join('; ')}`);
+  if (product.caseStudies?.length) lines.push(`Kundecaser: ${product.caseStudies.join('; ')}`);
+  for (const doc of product.documents ?? []) {
+    lines.push(`Fra dokumentet "${doc.name}": ${doc.text.slice(0, DOCUMENT_EXCERPT_CHARS)}`);
+  }
+  return lines.join('\n');
+};
+
+// Shared score scale for every criterion, so the same performance maps to the
+// same number regardless of methodology or evaluation run.
+export const SCORE_ANCHORS = [
+  '0-20: Ikke forsøkt, eller gjort på en måte som skadet samtalen.',
+  '21-40: Forsøkt, men overfladisk eller med tydelige feil.',
+  '41-60: Grunnleggende gjennomført, men uten dybde eller oppfølging.',
+  '61-80: Godt gjennomført, med konkrete eksempler i samtalen.',
+  '81-100: Forbilledlig; kunne vært brukt som eksempel i opplæring.',
+];
+
+const RATE_HINTS: Record<PersonaVoice['speakingRate'], string | null> = {
+  slow: 'i et rolig, litt langsomt tempo',
+  normal: null,
+  fast: 'raskt, som en som har dårlig tid',
+};
+
+// How the persona should sound. Live voices have no rate or accent settings,
+// so these go into the instructions instead.
+export const describeVoice = (voice: PersonaVoice): string[] => {
+  const hints: string[] = [];
+  const rate = RATE_HINTS[voice.speakingRate];
+  if (rate) hints.push(`Snakk ${rate}.`);
+  if (voice.style) hints.push(`Måten du snakker på: ${voice.style}.`);
+  if (voice.dialect) hints.push(`Snakk ${voice.dialect.toLowerCase()} dialekt, men vær forståelig.`);
+  return hints;
+};
+
+// What the persona says in a voice sample.
+export const voicePreviewLine = (persona: Persona): string => `Hallo, det er ${persona.name}. Hva gjelder det?`;
+
+// Text for a short voice sample, with the delivery hints in front for text-to-speech models that take them.
+export const buildVoicePreviewText = (persona: Persona): string => {
+  const hints = describeVoice(resolveVoice(persona));
+  const line = voicePreviewLine(persona);
+  return hints.length > 0 ? `${hints.join(' ')} Si dette: ${line}` : line;
+};
+
+// Mood notes from utils/buyerState.ts arrive alongside the seller's turns.
+const MOOD_RULES = [
+  '- Du får av og til en "Intern tilstand" om hvordan du oppfatter samtalen. Følg den, men les den aldri opp eller nevn den.',
+  '- Blir du bedt om å avslutte samtalen, si kort farvel og ikke svar på mer etterpå.',
+];
+
+const describeBuyerKnowledge = (product: ProductContext): string[] => {
+  const lines: string[] = [];
+  if (product.competitors?.length) {
+    lines.push(`- Du kjenner til alternativer som ${product.competitors.join(', ')} og kan sammenligne.`);
+  }
+  if (product.typicalObjections?.length) {
+    lines.push(`- Bruk gjerne realistiske innvendinger som: ${product.typicalObjections.join('; ')}.`);
+  }
+  return lines;
+};
+
+// System instruction that makes the model play the buyer. `history` resumes an
+// earlier conversation for backends that can't be seeded with chat history (live calls).
+export const buildPersonaInstruction = (
+  persona: Persona,
+  product: ProductContext,
+  scenario: Scenario,
+  channel: Channel,
+  history: ChatMessage[] = []
+): string => {
+  const fill = (text: string) => fillScenarioText(text, persona, product);
+  const medium = channel === 'call'
+    ? 'Samtalen foregår muntlig, som på telefon.'
+    : 'Samtalen foregår skriftlig i en chat.';
+  const opening = history.length > 0
+    ? '- Samtalen er allerede i gang. Ikke hils på nytt, men fortsett der den slapp.'
+    : `- Start samtalen slik: ${fill(scenario.opening)}`;
+
+  const channelRules = channel === 'call'
+    ? [
+        '- Snakk norsk.',
+        '- Vær kort og konsis som i en telefonsamtale.',
+        '- Ikke vær for hjelpsom hvis vanskelighetsgraden er høy.',
+        '- Avbryt gjerne hvis det er naturlig.',
+        ...describeVoice(resolveVoice(persona)).map(hint => `- ${hint}`),
+        opening,
+      ]
+    : [
+        '- Svar på norsk.',
+        '- Vær kort og konsis (som i en chat/SMS).',
+        '- Ikke vær for hjelpsom hvis vanskelighetsgraden er høy.',
+        opening,
+      ];
+
+  return `
+    Du er ${persona.name}${persona.age ? ` (${persona.age} år)` : ''}, ${persona.title} i ${persona.companySize}.
+    ${fill(scenario.situation)} ${medium}
+
+    Dine mål i samtalen:
+    ${scenario.buyerGoals.map(goal => `- ${fill(goal)}`).join('\n    ')}
+
+    Din personlighet:
+    - Motivasjon: ${persona.motivation}
+    - Smertepunkter: ${persona.painPoints}
+    - Stil: ${persona.communicationStyle}
+    - Vanskelighetsgrad: ${persona.difficulty}/5 (1=lett, 5=umulig).
+
+    Produktinfo selgeren har:
+    ${describeProduct(product)}
+
+    Instruksjoner:
+    ${[...channelRules, ...MOOD_RULES, ...describeBuyerKnowledge(product)].join('\n    ')}
+    ${history.length > 0 ? `
+    Samtalen så langt:
+    ${history.map(m => `${m.role === 'user' ? 'Selger' : 'Deg'}: ${m.text}`).join('\n    ')}` : ''}
+  `;
+};
+
+// System instruction for a buying committee: one model plays every member and
+// decides who answers. Lines are tagged with the speaker's first name so
+// utils/committee.ts can split them. The first member leads for the buyer side.
+export const buildCommitteeInstruction = (
+  committee: Persona[],
+  product: ProductContext,
+  scenario: Scenario,
+  channel: Channel,
+  history: ChatMessage[] = []
+): string => {
+  const lead = committee[0];
+  const fill = (text: string) => fillScenarioText(text, lead, product);
+  const medium = channel === 'call'
+    ? 'Samtalen foregår muntlig, som i et telefonmøte.'
+    : 'Samtalen foregår skriftlig i en felles chat.';
+  const opening = history.length > 0
+    ? '- Samtalen er allerede i gang. Ikke hils på nytt, men fortsett der den slapp.'
+    : `- ${firstName(lead)} åpner samtalen slik: ${fill(scenario.opening)}`;
+
+  const committeeRules = [
+    `- Start hver replikk med fornavnet til den som snakker og et kolon, f.eks. "${firstName(lead)}: ...".${channel === 'call' ? ' Si navnet høyt, så selgeren hører hvem som snakker.' : ''}`,
+    '- Flere kan svare etter hverandre i samme tur, hver med sitt navn foran.',
+    '- Bestem selv hvem som svarer: den selgerens replikk angår mest, eller den som har mest på spill. Som regel svarer én, av og til to.',
+    '- Hver deltaker holder fast på sine egne mål og prioriteringer, og de kan gjerne være uenige med hverandre.',
+    '- Sørg for at alle kommer til orde i løpet av samtalen, og at den som blir oversett, gir tydelig uttrykk for det.',
+  ];
+  const channelRules = channel === 'call'
+    ? ['- Snakk norsk.', '- Vær kort og konsis som i et telefonmøte.', opening]
+    : ['- Svar på norsk.', '- Vær kort og konsis (som i en chat).', opening];
+
+  const speakerName = (m: ChatMessage) => speakerOf(m, committee)?.name ?? lead.name;
+
+  return `
+    Du spiller en kjøpskomité på ${committee.length} personer i ${lead.companySize}.
+    ${fill(scenario.situation)} ${medium}
+
+    Komiteens mål i samtalen:
+    ${scenario.buyerGoals.map(goal => `- ${fill(goal)}`).join('\n    ')}
+
+    Deltakerne:
+    ${committee.map(p => `- ${p.name}${p.age ? ` (${p.age} år)` : ''}, ${p.title}. Motivasjon: ${p.motivation}. Smertepunkter: ${p.painPoints}. Stil: ${p.communicationStyle}. Vanskelighetsgrad: ${p.difficulty}/5.`).join('\n    ')}
+
+    Produktinfo selgeren har:
+    ${describeProduct(product)}
+
+    Instruksjoner:
+    ${[...committeeRules, ...channelRules, ...MOOD_RULES, ...describeBuyerKnowledge(product)].join('\n    ')}
+    ${history.length > 0 ? `
+    Samtalen så langt:
+    ${history.map(m => `${m.role === 'user' ? 'Selger' : speakerName(m)}: ${m.text}`).join('\n    ')}` : ''}
+  `;
+};
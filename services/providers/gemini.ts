@@ -0,0 +1,127 @@
+import { GoogleGenAI, LiveServerMessage, Modality, Schema, Type } from "@google/genai";
+import { JsonSchema, LlmProvider } from "./types";
+
+const MODELS = {
+  structured: 'gemini-2.5-flash',
+  chat: 'gemini-2.5-flash',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+  speech: 'gemini-2.5-flash-preview-tts',
+};
+
+// Gemini's Type enum uses the upper-case names of the JSON Schema types.
+const toGeminiSchema = (schema: JsonSchema): Schema => {
+  switch (schema.type) {
+    case 'object':
+      return {
+        type: Type.OBJECT,
+        description: schema.description,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        required: schema.required,
+      };
+    case 'array':
+      return { type: Type.ARRAY, description: schema.description, items: toGeminiSchema(schema.items) };
+    default:
+      return { type: schema.type.toUpperCase() as Type, description: schema.description };
+  }
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): LlmProvider => {
+  // Use a factory function to ensure we grab the current environment variable
+  // when the client is needed, avoiding initialization issues.
+  const getClient = () => new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    generateStructured: async ({ prompt, schema, sampling }) => {
+      const response = await getClient().models.generateContent({
+        model: MODELS.structured,
+        contents: prompt,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(schema),
+          temperature: sampling?.temperature,
+          seed: sampling?.seed,
+        }
+      });
+      if (!response.text) throw new Error("No response from AI");
+      return response.text;
+    },
+
+    createChat: ({ systemInstruction, history = [] }) => {
+      const chat = getClient().chats.create({
+        model: MODELS.chat,
+        config: { systemInstruction },
+        history: history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+      });
+      return {
+        sendMessage: async (text) => {
+          const res = await chat.sendMessage({ message: text });
+          return res.text ?? '';
+        }
+      };
+    },
+
+    connectLive: async ({ systemInstruction, voiceName, callbacks }) => {
+      const session = await getClient().live.connect({
+        model: MODELS.live,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+          },
+          systemInstruction,
+          inputAudioTranscription: {},
+          outputAudioTranscription: {}
+        },
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: (message: LiveServerMessage) => {
+            const content = message.serverContent;
+            if (content?.outputTranscription?.text) {
+              callbacks.onOutputTranscription(content.outputTranscription.text);
+            }
+            if (content?.inputTranscription?.text) {
+              callbacks.onInputTranscription(content.inputTranscription.text);
+            }
+            const base64Audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (base64Audio) {
+              callbacks.onAudio(base64Audio);
+            }
+            if (content?.interrupted) {
+              callbacks.onInterrupted();
+            }
+          },
+          onclose: () => callbacks.onClose(),
+          onerror: (err) => callbacks.onError(err),
+        }
+      });
+
+      return {
+        sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+        endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+        sendContext: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: false }),
+        close: () => session.close(),
+      };
+    },
+
+    synthesizeSpeech: async (text, voiceName) => {
+      const response = await getClient().models.generateContent({
+        model: MODELS.speech,
+        contents: text,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+          },
+        }
+      });
+      const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!audio) throw new Error("No audio from AI");
+      return audio;
+    },
+  };
+};
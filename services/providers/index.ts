@@ -0,0 +1,34 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { MOCK_CHAT_SCRIPT, MOCK_FIXTURES } from "./mockFixtures";
+import { createOpenAiProvider } from "./openai";
+import { LlmProvider } from "./types";
+
+export type { LlmProvider } from "./types";
+
+export type ProviderName = 'gemini' | 'openai' | 'mock';
+
+export const PROVIDER_NAMES: ProviderName[] = ['gemini', 'openai', 'mock'];
+
+// Builds a backend with its build-time settings (see vite.config.ts). Tools such as
+// the evaluation corpus use this to run against a backend other than the configured one.
+export const createProvider = (name: ProviderName): LlmProvider => {
+  switch (name) {
+    case 'mock':
+      return createMockProvider({ fixtures: MOCK_FIXTURES, chatScript: MOCK_CHAT_SCRIPT });
+    case 'openai':
+      return createOpenAiProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      });
+    default:
+      return createGeminiProvider(process.env.API_KEY);
+  }
+};
+
+// The backend picked with LLM_PROVIDER. Defaults to Gemini so existing setups keep working unchanged.
+export const configuredProviderName = (): ProviderName =>
+  PROVIDER_NAMES.find(name => name === process.env.LLM_PROVIDER) ?? 'gemini';
+
+export const getProvider = (): LlmProvider => createProvider(configuredProviderName());
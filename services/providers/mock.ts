@@ -0,0 +1,104 @@
+import { JsonSchema, LlmProvider, StructuredRequest } from "./types";
+
+// A canned response, or a function building one when it depends on the request
+// (e.g. the evaluation, whose score fields follow the scorecard).
+export type MockFixture = unknown | ((request: StructuredRequest) => unknown);
+
+export interface MockProviderOptions {
+  // Canned responses keyed by StructuredRequest.name. Anything without a
+  // fixture is synthesised from the schema instead.
+  fixtures?: Record<string, MockFixture>;
+  // Replies the buyer cycles through in chat and live sessions.
+  chatScript?: string[];
+}
+
+const LIVE_TURN_PAUSE_MS = 1200;
+
+const DEFAULT_CHAT_SCRIPT = [
+  "Hei, det er meg. Hva gjelder det?",
+  "Ok, fortell litt mer.",
+  "Hva koster det?",
+  "Jeg må tenke på det.",
+];
+
+// Small stable string hash, so the same request always yields the same output.
+const hash = (value: string) => {
+  let h = 0;
+  for (let i = 0; i < value.length; i++) {
+    h = (h * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(h);
+};
+
+const synthesize = (schema: JsonSchema, path: string): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, synthesize(value, `${path}.${key}`)])
+      );
+    case 'array':
+      return [0, 1, 2].map(i => synthesize(schema.items, `${path}[${i}]`));
+    case 'integer':
+    case 'number':
+      return hash(path) % 101;
+    case 'boolean':
+      return hash(path) % 2 === 0;
+    default:
+      return `Mock ${path.split('.').pop()}`;
+  }
+};
+
+// Deterministic, fully offline provider. Useful for development without an
+// API key and for exercising the UI flow in tests.
+export const createMockProvider = ({ fixtures = {}, chatScript = DEFAULT_CHAT_SCRIPT }: MockProviderOptions = {}): LlmProvider => ({
+  id: 'mock',
+  label: 'Lokal mock',
+
+  generateStructured: async (request) => {
+    const { name, schema } = request;
+    if (!(name in fixtures)) return JSON.stringify(synthesize(schema, name));
+    const fixture = fixtures[name];
+    return JSON.stringify(typeof fixture === 'function' ? fixture(request) : fixture);
+  },
+
+  createChat: ({ history = [] }) => {
+    // Continue the script where a seeded history left off.
+    let turn = history.filter(m => m.role === 'model').length;
+    return {
+      sendMessage: async () => chatScript[turn++ % chatScript.length]
+    };
+  },
+
+  connectLive: async ({ callbacks }) => {
+    let closed = false;
+    let turn = 0;
+    let replyTimer: ReturnType<typeof setTimeout> | undefined;
+    const reply = () => {
+      if (closed) return;
+      callbacks.onOutputTranscription(chatScript[turn++ % chatScript.length]);
+    };
+    // Mirror the real API: open asynchronously, then greet the seller.
+    setTimeout(() => {
+      if (closed) return;
+      callbacks.onOpen();
+      reply();
+    }, 0);
+    return {
+      // Treat a pause in incoming audio as the end of the seller's turn.
+      sendAudio: () => {
+        clearTimeout(replyTimer);
+        replyTimer = setTimeout(reply, LIVE_TURN_PAUSE_MS);
+      },
+      endAudioStream: () => {
+        clearTimeout(replyTimer);
+        reply();
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        clearTimeout(replyTimer);
+        callbacks.onClose();
+      },
+    };
+  },
+});
@@ -0,0 +1,171 @@
+import { Persona, ProductContext } from "../../types";
+import { MockFixture } from "./mock";
+import { StructuredRequest } from "./types";
+
+// Canned data for the offline mock backend. Keys match the StructuredRequest
+// names used in services/gemini.ts.
+
+const productContext: Omit<ProductContext, 'url'> = {
+  companyName: "Fjordsky Regnskap",
+  description: "Skybasert regnskapssystem for små og mellomstore norske bedrifter. Automatiserer bilagsføring, fakturering og MVA-rapportering.",
+  sellingPoints: [
+    "Automatisk bokføring av bilag med bankintegrasjon",
+    "Ferdig MVA-melding direkte til Altinn",
+    "Norsk kundestøtte med svar innen én time",
+    "Fast månedspris uten bindingstid"
+  ]
+};
+
+// Shaped like the model's response, which describes the voice instead of picking one.
+type GeneratedPersona = Omit<Persona, 'voice'> & { speakingStyle: string; dialect: string };
+
+const personas: GeneratedPersona[] = [
+  {
+    id: "mock-ingrid",
+    name: "Ingrid Haugen",
+    title: "Daglig leder",
+    companySize: "8 ansatte",
+    industry: "Frisørkjede",
+    motivation: "Vil bruke mindre tid på papirarbeid og mer tid på kundene.",
+    painPoints: "Leverer bilag i en skoeske til regnskapsføreren hver måned.",
+    communicationStyle: "Vennlig og åpen, men lite teknisk.",
+    difficulty: 1,
+    avatarColor: "bg-green-500",
+    gender: "female",
+    age: 44,
+    speakingStyle: "Varm og pratsom",
+    dialect: "Bergensk"
+  },
+  {
+    id: "mock-lars",
+    name: "Lars Bakken",
+    title: "Økonomisjef",
+    companySize: "45 ansatte",
+    industry: "Byggevarehandel",
+    motivation: "Ønsker bedre oversikt over likviditet måned for måned.",
+    painPoints: "Dagens system krever mye manuell avstemming.",
+    communicationStyle: "Saklig og opptatt av tall.",
+    difficulty: 3,
+    avatarColor: "bg-blue-500",
+    gender: "male",
+    age: 58,
+    speakingStyle: "Rolig og avmålt, tenker før han svarer",
+    dialect: ""
+  },
+  {
+    id: "mock-kari",
+    name: "Kari Nilsen",
+    title: "IT-ansvarlig",
+    companySize: "120 ansatte",
+    industry: "Logistikk",
+    motivation: "Færre systemer å vedlikeholde og sikre integrasjoner.",
+    painPoints: "Bekymret for datasikkerhet og skyleverandører.",
+    communicationStyle: "Skeptisk og detaljorientert.",
+    difficulty: 4,
+    avatarColor: "bg-purple-500",
+    gender: "female",
+    age: 31,
+    speakingStyle: "Presis og litt kjølig",
+    dialect: ""
+  },
+  {
+    id: "mock-odd",
+    name: "Odd Strand",
+    title: "Eier",
+    companySize: "3 ansatte",
+    industry: "Rørlegger",
+    motivation: "Vil ikke betale for noe han ikke trenger.",
+    painPoints: "Har blitt lurt av selgere før.",
+    communicationStyle: "Kort, avvisende og utålmodig.",
+    difficulty: 5,
+    avatarColor: "bg-red-500",
+    gender: "male",
+    age: 62,
+    speakingStyle: "Brå og utålmodig, korte svar",
+    dialect: "Trøndersk"
+  }
+];
+
+// Cycled over the criteria of whichever scorecard the request was built for.
+const MOCK_SCORES = [72, 58, 66, 49, 61, 54];
+
+// Keys of an object property in the evaluation schema, e.g. the criterion ids under "scores".
+const schemaKeys = ({ schema }: StructuredRequest, property: string): string[] => {
+  const value = schema.type === 'object' ? schema.properties[property] : undefined;
+  return value?.type === 'object' ? Object.keys(value.properties) : [];
+};
+
+const MOCK_STAKEHOLDER_COMMENTS = [
+  "Fikk gode svar på spørsmålene om pris og gevinst.",
+  "Ble lite involvert; de tekniske bekymringene ble ikke fulgt opp.",
+  "Selgeren spurte om hverdagen og fikk frem hva som ville hjelpe.",
+];
+
+const evaluation = (request: StructuredRequest) => {
+  const ids = schemaKeys(request, 'scores');
+  // Only present for sessions with a buying committee.
+  const stakeholderIds = schemaKeys(request, 'stakeholders');
+  const criterion = (i: number) => ids[i % Math.max(1, ids.length)];
+  return {
+    scores: Object.fromEntries(ids.map((id, i) => [id, MOCK_SCORES[i % MOCK_SCORES.length]])),
+    goodPoints: [
+      "Tydelig presentasjon av deg selv og grunnen til at du ringte.",
+      "Knyttet produktet til kundens konkrete utfordring."
+    ],
+    improvementPoints: [
+      "Still flere åpne spørsmål før du presenterer løsningen.",
+      "Prisinnvendingen ble møtt med rabatt i stedet for verdi."
+    ],
+    nextSteps: [
+      "Øv på tre åpne behovsspørsmål du alltid kan bruke.",
+      "Forbered en verdibasert respons på «det er for dyrt»."
+    ],
+    // Indices follow MOCK_CHAT_SCRIPT, where the seller's messages are the odd ones.
+    annotations: [
+      { messageIndex: 1, category: criterion(0), sentiment: 'positive', comment: "Kort og tydelig introduksjon med en grunn til å ringe." },
+      { messageIndex: 3, category: criterion(1), sentiment: 'negative', comment: "Her kunne du spurt hva som ikke fungerer med dagens system." },
+      { messageIndex: 7, category: criterion(3), sentiment: 'negative', comment: "Du svarte på prisen før du forsto hva kunden sammenlignet med." },
+      { messageIndex: 11, category: criterion(4), sentiment: 'positive', comment: "Godt at du foreslo et konkret tidspunkt for oppfølging." }
+    ],
+    improvedReplies: [
+      {
+        messageIndex: 3,
+        reply: "Forståelig at dere har noe fra før. Hva fungerer godt med det i dag, og hva skulle du ønske gikk raskere?",
+        rationale: "Et åpent spørsmål får kunden til å beskrive behovet selv før du presenterer løsningen."
+      },
+      {
+        messageIndex: 7,
+        reply: "Godt spørsmål. Før jeg svarer: hva sammenligner du med, og hva bruker dere på bilagsføring i dag?",
+        rationale: "Du forstår kundens referansepunkt før prisen kommer, og kan svare med verdi i stedet for rabatt."
+      }
+    ],
+    // Scenarios have three or four criteria; results for ones the scenario lacks are dropped.
+    successCriteria: [
+      { index: 0, met: true, comment: "Kunden fikk en tydelig grunn til å fortsette samtalen." },
+      { index: 1, met: false, comment: "Selgeren gikk videre før behovet var avklart." },
+      { index: 2, met: true, comment: "Samtalen endte med et konkret forslag til neste steg." },
+      { index: 3, met: false, comment: "Kunden bekreftet aldri at forslaget løste problemet." }
+    ],
+    stakeholders: Object.fromEntries(stakeholderIds.map((id, i) => [id, {
+      score: MOCK_SCORES[(i + 2) % MOCK_SCORES.length],
+      comment: MOCK_STAKEHOLDER_COMMENTS[i % MOCK_STAKEHOLDER_COMMENTS.length]
+    }]))
+  };
+};
+
+export const MOCK_FIXTURES: Record<string, MockFixture> = {
+  product_context: productContext,
+  personas,
+  evaluation,
+};
+
+// A plausible buyer arc: greeting, discovery, objection, soft close.
+export const MOCK_CHAT_SCRIPT = [
+  "Hallo, det er meg. Hvem snakker jeg med?",
+  "Ok. Vi har jo et system fra før, så jeg vet ikke helt hva du kan tilby.",
+  "Det stemmer at vi bruker mye tid på bilag hver måned, ja.",
+  "Hva koster dette egentlig? Det høres dyrt ut.",
+  "Hm, fast pris uten binding er jo greit. Men vi er midt i en travel periode.",
+  "Send meg gjerne litt informasjon på e-post, så kan vi ta en prat neste uke.",
+  "Greit, da snakkes vi. Ha det bra!"
+];
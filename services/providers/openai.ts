@@ -0,0 +1,89 @@
+import { JsonSchema, LlmProvider, SamplingOptions } from "./types";
+import { errorFromStatus } from "../errors";
+
+interface OpenAiConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON Schema as understood by OpenAI-style `response_format`. Our schema subset
+// already uses the standard lower-case type names, so it only needs copying.
+const toJsonSchema = (schema: JsonSchema): Record<string, unknown> => {
+  switch (schema.type) {
+    case 'object':
+      return {
+        type: 'object',
+        description: schema.description,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        ),
+        required: schema.required ?? [],
+      };
+    case 'array':
+      return { type: 'array', description: schema.description, items: toJsonSchema(schema.items) };
+    default:
+      return { type: schema.type, description: schema.description };
+  }
+};
+
+// Works against OpenAI itself and self-hosted servers exposing the same
+// /chat/completions API (vLLM, Ollama, LM Studio, Azure-style gateways, ...).
+export const createOpenAiProvider = ({ baseUrl, apiKey, model }: OpenAiConfig): LlmProvider => {
+  const complete = async (messages: OpenAiMessage[], responseFormat?: Record<string, unknown>, sampling: SamplingOptions = {}) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, messages, response_format: responseFormat, temperature: sampling.temperature, seed: sampling.seed }),
+    });
+    if (!response.ok) {
+      throw errorFromStatus(response.status, `Request failed with status ${response.status}: ${await response.text()}`);
+    }
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content) throw new Error("No response from AI");
+    return content;
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-kompatibel',
+
+    generateStructured: ({ name, prompt, schema, sampling }) =>
+      complete(
+        [{ role: 'user', content: prompt }],
+        { type: 'json_schema', json_schema: { name, schema: toJsonSchema(schema) } },
+        sampling
+      ),
+
+    createChat: ({ systemInstruction, history = [] }) => {
+      // The API is stateless, so the conversation is kept client-side.
+      const messages: OpenAiMessage[] = [
+        { role: 'system', content: systemInstruction },
+        ...history.map(m => ({ role: m.role === 'user' ? 'user' as const : 'assistant' as const, content: m.text })),
+      ];
+      return {
+        sendMessage: async (text) => {
+          messages.push({ role: 'user', content: text });
+          try {
+            const reply = await complete(messages);
+            messages.push({ role: 'assistant', content: reply });
+            return reply;
+          } catch (error) {
+            // Drop the unanswered turn so a retry doesn't send it twice.
+            messages.pop();
+            throw error;
+          }
+        }
+      };
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import { ChatMessage } from "../../types";
+
+// Provider-neutral subset of JSON Schema. Each provider translates it into
+// whatever its API expects (Gemini's Type enum, OpenAI's json_schema, ...).
+export type JsonSchema =
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[]; description?: string }
+  | { type: 'array'; items: JsonSchema; description?: string }
+  | { type: 'string' | 'integer' | 'number' | 'boolean'; description?: string };
+
+// Sampling parameters for backends that support them. Left unset, each
+// backend uses its own defaults.
+export interface SamplingOptions {
+  temperature?: number;
+  seed?: number;
+}
+
+export interface StructuredRequest {
+  // Identifies the response shape, e.g. 'product_context'. Used as the schema
+  // name by OpenAI-compatible APIs and to pick fixtures in the mock provider.
+  name: string;
+  prompt: string;
+  schema: JsonSchema;
+  sampling?: SamplingOptions;
+}
+
+export interface ChatOptions {
+  systemInstruction: string;
+  history?: ChatMessage[];
+}
+
+export interface ChatHandle {
+  sendMessage: (text: string) => Promise<string>;
+}
+
+// Base64 encoded audio with its mime type, e.g. 'audio/pcm;rate=16000'.
+export interface AudioChunk {
+  data: string;
+  mimeType: string;
+}
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  // Base64 encoded 24 kHz mono PCM16 from the buyer.
+  onAudio: (base64Pcm: string) => void;
+  onInputTranscription: (text: string) => void;
+  onOutputTranscription: (text: string) => void;
+  onInterrupted: () => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface LiveOptions {
+  systemInstruction: string;
+  voiceName: string;
+  callbacks: LiveCallbacks;
+}
+
+export interface LiveSession {
+  sendAudio: (chunk: AudioChunk) => void;
+  // Tells the backend the seller stopped talking, so it can answer without waiting for more audio.
+  endAudioStream?: () => void;
+  // Adds text to the model's context without asking it to answer, e.g. the buyer's current mood.
+  sendContext?: (text: string) => void;
+  close: () => void;
+}
+
+export interface LlmProvider {
+  id: string;
+  label: string;
+  // Resolves with the raw JSON text; parsing is left to the caller.
+  generateStructured: (request: StructuredRequest) => Promise<string>;
+  createChat: (options: ChatOptions) => ChatHandle;
+  // Optional, since not every backend offers realtime audio.
+  connectLive?: (options: LiveOptions) => Promise<LiveSession>;
+  // Reads `text` aloud with one of the live voices, for previews. Resolves with
+  // base64 encoded 24 kHz mono PCM16.
+  synthesizeSpeech?: (text: string, voiceName: string) => Promise<string>;
+}
@@ -0,0 +1,61 @@
+import { CallRecording } from "../types";
+
+// Call recordings are far too large for localStorage, so they are kept in
+// IndexedDB keyed by session id. Like the localStorage helpers, failures are
+// logged and never thrown: a missing recording only hides the player.
+
+const DB_NAME = 'salgstrener';
+const DB_VERSION = 1;
+const STORE = 'recordings';
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE)) {
+      request.result.createObjectStore(STORE);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveRecording = async (sessionId: string, recording: CallRecording) => {
+  try {
+    await run('readwrite', store => store.put(recording, sessionId));
+  } catch (error) {
+    console.error("Error saving recording:", error);
+  }
+};
+
+export const loadRecording = async (sessionId: string): Promise<CallRecording | null> => {
+  try {
+    return (await run<CallRecording | undefined>('readonly', store => store.get(sessionId))) ?? null;
+  } catch (error) {
+    console.error("Error loading recording:", error);
+    return null;
+  }
+};
+
+export const deleteRecording = async (sessionId: string) => {
+  try {
+    await run('readwrite', store => store.delete(sessionId));
+  } catch (error) {
+    console.error("Error deleting recording:", error);
+  }
+};
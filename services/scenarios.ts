@@ -0,0 +1,155 @@
+import { Persona, ProductContext, Scenario } from "../types";
+
+// Sessions default to a cold call, the only kind of conversation before scenarios existed.
+export const COLD_CALL_SCENARIO: Scenario = {
+  id: 'cold-call',
+  name: 'Kald telefon',
+  description: 'Første kontakt med en kunde som ikke venter samtalen.',
+  situation: 'En selger fra {company} ringer deg uten avtale. Du har ikke bedt om kontakt og er midt i noe annet.',
+  opening: 'Si "Hallo?" eller "Ja, det er {persona}?".',
+  buyerGoals: [
+    'Finne ut raskt hva dette gjelder og om det er verdt tiden din.',
+    'Avslutte samtalen høflig hvis selgeren ikke gir deg en god grunn til å fortsette.',
+  ],
+  sellerGoal: 'Vekk interesse på kort tid og book et oppfølgingsmøte.',
+  successCriteria: [
+    'Ga kunden en relevant grunn til å fortsette samtalen i løpet av det første minuttet.',
+    'Avdekket minst ett konkret behov eller problem.',
+    'Avtalte et konkret neste steg med tidspunkt.',
+  ],
+  evaluationFocus: 'Åpningen og evnen til å skape interesse raskt veier tyngst. Kunden har ikke bedt om samtalen, så korte, relevante spørsmål er viktigere enn en fullstendig presentasjon.',
+};
+
+export const SCENARIOS: Scenario[] = [
+  COLD_CALL_SCENARIO,
+  {
+    id: 'discovery',
+    name: 'Behovsavklaring',
+    description: 'Innledende møte der kunden har takket ja til å høre mer.',
+    situation: 'Du har takket ja til et innledende møte med en selger fra {company} etter en kort prat tidligere. Du vet lite om løsningen, men er åpen for å høre hvordan de kan hjelpe.',
+    opening: 'Hils, si at du har satt av en halvtime, og spør hva selgeren har tenkt å gå gjennom.',
+    buyerGoals: [
+      'Finne ut om {company} forstår hvordan dere jobber.',
+      'Ikke gi fra deg for mye informasjon før du stoler på selgeren.',
+    ],
+    sellerGoal: 'Kartlegg situasjonen, smertepunktene og beslutningsprosessen før du presenterer noe.',
+    successCriteria: [
+      'Stilte åpne spørsmål om kundens nåsituasjon og utfordringer før produktet ble presentert.',
+      'Fant ut hva problemet koster kunden i tid eller penger.',
+      'Kartla hvem som er involvert i beslutningen, og tidslinjen.',
+      'Oppsummerte behovene og fikk kunden til å bekrefte dem.',
+    ],
+    evaluationFocus: 'Spørsmålsteknikk og lytting veier tyngst. Selgeren bør snakke mindre enn kunden og vente med løsningen til behovene er avklart.',
+    mood: { interest: 15, trust: 10, minutes: 30 },
+  },
+  {
+    id: 'demo-follow-up',
+    name: 'Oppfølging etter demo',
+    description: 'Kunden har sett en demo, men har ikke bestemt seg.',
+    situation: 'Du så en demo av løsningen fra {company} for en uke siden. Den var interessant, men du har ikke bestemt deg, og noen kolleger er skeptiske.',
+    opening: 'Hils og si at du har sett på demoen, men at dere ikke har landet noe ennå.',
+    buyerGoals: [
+      'Få svar på spørsmålene kollegene dine stilte etter demoen.',
+      'Unngå å forplikte deg før du vet hvordan innføringen vil bli.',
+    ],
+    sellerGoal: 'Avdekk hva som står i veien for en beslutning, og bli enige om neste steg mot avtale.',
+    successCriteria: [
+      'Spurte hva kunden og kollegene syntes om demoen.',
+      'Fant de konkrete hindringene for en beslutning.',
+      'Koblet funksjoner fra demoen til behovene kunden har nevnt.',
+      'Avtalte et konkret neste steg, f.eks. pilot, tilbud eller møte med flere beslutningstakere.',
+    ],
+    evaluationFocus: 'Å avdekke og håndtere tvil veier tyngst. Selgeren skal ikke gjenta demoen, men finne ut hva som mangler for at kunden kan si ja.',
+    mood: { interest: 20, trust: 10, minutes: 20 },
+  },
+  {
+    id: 'negotiation',
+    name: 'Prisforhandling',
+    description: 'Kunden vil ha løsningen, men presser prisen.',
+    situation: 'Du har fått et tilbud fra {company} og vil gjerne ha løsningen, men prisen er høyere enn budsjettet. Du har et billigere tilbud fra en konkurrent, og du skal presse prisen.',
+    opening: 'Hils og si rett ut at tilbudet er for dyrt, og at dere har et billigere alternativ.',
+    buyerGoals: [
+      'Få ned prisen med minst 20 prosent.',
+      'Få med ekstra tjenester eller bedre betingelser hvis prisen ikke går ned.',
+      'Ikke avslør hvor mye du faktisk kan betale.',
+    ],
+    sellerGoal: 'Forsvar verdien og få en avtale uten å gi rabatt uten å få noe tilbake.',
+    successCriteria: [
+      'Utforsket hva kunden sammenligner med før prisen ble diskutert.',
+      'Begrunnet prisen med verdi og tall kunden selv hadde bekreftet.',
+      'Ga bare innrømmelser mot en motytelse, f.eks. lengre avtale eller raskere signering.',
+      'Endte med en avtale eller et tydelig neste steg mot signering.',
+    ],
+    evaluationFocus: 'Forhandlingsteknikk veier tyngst: å holde på verdien, bytte innrømmelser mot motytelser og ikke gi etter ved første press. Rabatt uten motytelse trekker tydelig ned.',
+    mood: { interest: 25, trust: 5, minutes: 30 },
+  },
+  {
+    id: 'renewal',
+    name: 'Fornyelse med churn-risiko',
+    description: 'En misfornøyd kunde vurderer å ikke fornye avtalen.',
+    situation: 'Dere har brukt løsningen fra {company} i et år, og avtalen skal fornyes om en måned. Dere har hatt problemer med support, få ansatte bruker løsningen, og du vurderer å bytte leverandør.',
+    opening: 'Hils kjølig og si at du er usikker på om dere fornyer.',
+    buyerGoals: [
+      'Få selgeren til å ta problemene dere har hatt på alvor.',
+      'Finne ut om det lønner seg å bytte leverandør.',
+      'Bruke misnøyen til å få bedre betingelser.',
+    ],
+    sellerGoal: 'Forstå hvorfor kunden vurderer å gå, gjenoppbygg tilliten og sikre fornyelsen.',
+    successCriteria: [
+      'Lot kunden forklare misnøyen uten å forsvare seg eller avbryte.',
+      'Anerkjente problemene og tok ansvar der det var rimelig.',
+      'Foreslo konkrete tiltak for å øke bruken og løse problemene.',
+      'Fikk kunden til å forplikte seg til fornyelse eller et konkret oppfølgingsmøte.',
+    ],
+    evaluationFocus: 'Lytting, empati og tillitsbygging veier tyngst. Selgeren bør forstå årsakene før fornyelsen diskuteres, og løse problemer fremfor å gi rabatt.',
+    mood: { interest: -5, trust: -15, minutes: 30 },
+  },
+  {
+    id: 'upsell',
+    name: 'Mersalg',
+    description: 'En fornøyd kunde som kan ha nytte av mer.',
+    situation: 'Dere er fornøyde kunder av {company} og bruker løsningen daglig. Selgeren har bedt om en prat, og du regner med at det handler om å selge mer.',
+    opening: 'Hils vennlig, si at det går fint med løsningen, og spør hva selgeren ville snakke om.',
+    buyerGoals: [
+      'Holde kostnadene nede; budsjettet for året er stort sett brukt.',
+      'Bare kjøpe mer hvis det løser et problem dere faktisk har.',
+    ],
+    sellerGoal: 'Finn nye behov hos en fornøyd kunde og foreslå en utvidelse som løser dem.',
+    successCriteria: [
+      'Spurte hvordan løsningen brukes i dag og hva som fungerer.',
+      'Avdekket et nytt behov eller en ny avdeling som kan ha nytte av mer.',
+      'Knyttet utvidelsen til en konkret gevinst for kunden.',
+      'Avtalte et neste steg for utvidelsen.',
+    ],
+    evaluationFocus: 'Behovsavdekking hos en eksisterende kunde veier tyngst. Selgeren bør bygge på det som fungerer og ikke presse frem et kjøp kunden ikke har bruk for.',
+    mood: { interest: 5, trust: 20, minutes: 20 },
+  },
+  {
+    id: 'gatekeeper',
+    name: 'Forbi sentralbordet',
+    description: 'En assistent skjermer beslutningstakeren.',
+    situation: 'En selger fra {company} ringer uten avtale. Først svarer du som assistenten til {persona} ({title}). Som assistent skjermer du {persona} mot selgere, og setter bare over hvis selgeren er tydelig, høflig og har en god grunn. Når du setter over, si at du kobler videre og fortsett som {persona}.',
+    opening: 'Svar som assistenten, f.eks. "Kontoret til {persona}, hva gjelder det?".',
+    buyerGoals: [
+      'Som assistent: beskytte tiden til {persona}.',
+      'Som {persona}: finne ut raskt om dette er verdt tiden din.',
+    ],
+    sellerGoal: 'Kom forbi assistenten på en ærlig måte og få et møte med beslutningstakeren.',
+    successCriteria: [
+      'Behandlet assistenten med respekt og ga en kort, ærlig grunn for samtalen.',
+      'Ble satt over til beslutningstakeren, eller fikk et konkret tidspunkt å ringe tilbake.',
+      'Tilpasset budskapet raskt til beslutningstakerens rolle.',
+      'Avtalte et konkret neste steg med beslutningstakeren.',
+    ],
+    evaluationFocus: 'Å komme forbi assistenten uten triks veier tyngst, og deretter å skape interesse raskt hos beslutningstakeren. Uærlighet overfor assistenten trekker ned.',
+    mood: { interest: -5 },
+  },
+];
+
+export const fillScenarioText = (text: string, persona: Persona, product: ProductContext): string =>
+  text
+    .replace(/\{persona\}/g, persona.name)
+    .replace(/\{title\}/g, persona.title)
+    .replace(/\{company\}/g, product.companyName);
+
+export const resolveScenario = (scenario?: Scenario): Scenario => scenario ?? COLD_CALL_SCENARIO;
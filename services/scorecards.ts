@@ -0,0 +1,123 @@
+import { Scorecard } from "../types";
+import { createId, readList, writeList } from "../utils/storage";
+import { loadSettings } from "./settings";
+
+const STORAGE_KEY = 'salgstrener.scorecards';
+
+// Colors for criteria, assigned in order.
+export const CRITERION_COLORS = ['#60A5FA', '#34D399', '#818CF8', '#FBBF24', '#F87171', '#2DD4BF', '#F472B6', '#A3E635'];
+
+// The five categories every session was scored on before scorecards existed.
+// Its criterion ids match the old EvaluationMetrics fields so stored sessions map onto it.
+export const STANDARD_SCORECARD: Scorecard = {
+  id: 'standard',
+  name: 'Standard',
+  description: 'Generell salgssamtale fra åpning til avslutning.',
+  builtIn: true,
+  criteria: [
+    { id: 'openingScore', name: 'Åpning', weight: 1, color: CRITERION_COLORS[0], description: 'Presenterer seg tydelig, skaper interesse og gir kunden en grunn til å fortsette samtalen.' },
+    { id: 'discoveryScore', name: 'Behov', weight: 1, color: CRITERION_COLORS[1], description: 'Stiller åpne spørsmål og avdekker kundens situasjon, utfordringer og mål før løsningen presenteres.' },
+    { id: 'pitchScore', name: 'Pitch', weight: 1, color: CRITERION_COLORS[2], description: 'Knytter produktets verdi og fakta til behovene kunden har fortalt om.' },
+    { id: 'objectionHandlingScore', name: 'Innvendinger', weight: 1, color: CRITERION_COLORS[3], description: 'Anerkjenner innvendinger, utforsker hva som ligger bak og svarer med verdi, ikke rabatt.' },
+    { id: 'closingScore', name: 'Closing', weight: 1, color: CRITERION_COLORS[4], description: 'Foreslår et konkret neste steg og får kunden til å forplikte seg.' },
+  ],
+};
+
+export const SCORECARD_PRESETS: Scorecard[] = [
+  STANDARD_SCORECARD,
+  {
+    id: 'spin',
+    name: 'SPIN Selling',
+    description: 'Spørsmålsbasert salg: Situasjon, Problem, Implikasjon og Behovsgevinst.',
+    builtIn: true,
+    criteria: [
+      { id: 'situation', name: 'Situasjon', weight: 1, color: CRITERION_COLORS[0], description: 'Få, målrettede spørsmål om kundens nåsituasjon. For mange situasjonsspørsmål trekker ned.' },
+      { id: 'problem', name: 'Problem', weight: 2, color: CRITERION_COLORS[1], description: 'Avdekker vanskeligheter, misnøye og problemer kunden har i dag.' },
+      { id: 'implication', name: 'Implikasjon', weight: 2, color: CRITERION_COLORS[2], description: 'Utforsker konsekvensene av problemene, slik at kunden ser hvor mye de koster.' },
+      { id: 'needPayoff', name: 'Behovsgevinst', weight: 2, color: CRITERION_COLORS[3], description: 'Får kunden til selv å sette ord på verdien av en løsning.' },
+      { id: 'commitment', name: 'Forpliktelse', weight: 1, color: CRITERION_COLORS[4], description: 'Avslutter med et konkret fremskritt, f.eks. møte, demo eller pilot.' },
+    ],
+  },
+  {
+    id: 'challenger',
+    name: 'Challenger Sale',
+    description: 'Lær bort ny innsikt, tilpass budskapet og ta kontroll over samtalen.',
+    builtIn: true,
+    criteria: [
+      { id: 'teach', name: 'Lær bort', weight: 2, color: CRITERION_COLORS[0], description: 'Utfordrer kundens tankesett med relevant innsikt kunden ikke hadde fra før.' },
+      { id: 'tailor', name: 'Tilpass', weight: 1, color: CRITERION_COLORS[1], description: 'Tilpasser budskapet til kundens rolle, bransje og prioriteringer.' },
+      { id: 'takeControl', name: 'Ta kontroll', weight: 1, color: CRITERION_COLORS[2], description: 'Styrer samtalen, tåler uenighet og snakker åpent om pris og neste steg.' },
+    ],
+  },
+  {
+    id: 'meddic',
+    name: 'MEDDIC',
+    description: 'Kvalifisering av komplekse B2B-salg.',
+    builtIn: true,
+    criteria: [
+      { id: 'metrics', name: 'Metrics', weight: 1, color: CRITERION_COLORS[0], description: 'Tallfester gevinsten kunden kan oppnå, f.eks. sparte timer eller kroner.' },
+      { id: 'economicBuyer', name: 'Economic Buyer', weight: 1, color: CRITERION_COLORS[1], description: 'Finner ut hvem som eier budsjettet og tar den endelige beslutningen.' },
+      { id: 'decisionCriteria', name: 'Decision Criteria', weight: 1, color: CRITERION_COLORS[2], description: 'Avdekker hvilke kriterier løsningen vil bli vurdert etter.' },
+      { id: 'decisionProcess', name: 'Decision Process', weight: 1, color: CRITERION_COLORS[3], description: 'Kartlegger stegene, personene og tidslinjen frem til beslutning.' },
+      { id: 'identifyPain', name: 'Identify Pain', weight: 1, color: CRITERION_COLORS[4], description: 'Identifiserer en konkret smerte som gjør at kunden må handle.' },
+      { id: 'champion', name: 'Champion', weight: 1, color: CRITERION_COLORS[5], description: 'Bygger en intern støttespiller som har innflytelse og vil at løsningen lykkes.' },
+    ],
+  },
+  {
+    id: 'bant',
+    name: 'BANT',
+    description: 'Rask kvalifisering: Budsjett, Autoritet, Behov og Tidslinje.',
+    builtIn: true,
+    criteria: [
+      { id: 'budget', name: 'Budsjett', weight: 1, color: CRITERION_COLORS[0], description: 'Avklarer om kunden har eller kan få budsjett til løsningen.' },
+      { id: 'authority', name: 'Autoritet', weight: 1, color: CRITERION_COLORS[1], description: 'Avklarer om samtalepartneren tar beslutningen, og hvem andre som må involveres.' },
+      { id: 'need', name: 'Behov', weight: 1, color: CRITERION_COLORS[2], description: 'Bekrefter et reelt behov som produktet løser.' },
+      { id: 'timeline', name: 'Tidslinje', weight: 1, color: CRITERION_COLORS[3], description: 'Avklarer når kunden ønsker å ha en løsning på plass.' },
+    ],
+  },
+];
+
+// Presets first, then the team's own scorecards.
+export const loadScorecards = (): Scorecard[] => [...SCORECARD_PRESETS, ...readList<Scorecard>(STORAGE_KEY)];
+
+export const createScorecardId = () => createId('scorecard');
+
+export const createCriterionId = () => createId('criterion');
+
+export const saveScorecard = (scorecard: Scorecard) => {
+  const custom = readList<Scorecard>(STORAGE_KEY);
+  const idx = custom.findIndex(s => s.id === scorecard.id);
+  const saved = { ...scorecard, builtIn: false };
+  if (idx >= 0) {
+    custom[idx] = saved;
+    writeList(STORAGE_KEY, custom);
+  } else {
+    writeList(STORAGE_KEY, [...custom, saved]);
+  }
+};
+
+export const removeScorecard = (id: string) => {
+  writeList(STORAGE_KEY, readList<Scorecard>(STORAGE_KEY).filter(s => s.id !== id));
+};
+
+export const duplicateScorecard = (scorecard: Scorecard): Scorecard => ({
+  ...scorecard,
+  id: createScorecardId(),
+  name: `${scorecard.name} (kopi)`,
+  builtIn: false,
+  criteria: scorecard.criteria.map(c => ({ ...c })),
+});
+
+// Falls back to the standard scorecard if the selected one was deleted.
+export const getActiveScorecard = (): Scorecard => {
+  const { scorecardId } = loadSettings();
+  return loadScorecards().find(s => s.id === scorecardId) ?? STANDARD_SCORECARD;
+};
+
+// Weighted average of the criterion scores; criteria without a score are left out.
+export const computeTotalScore = (scores: Record<string, number>, scorecard: Scorecard): number => {
+  const scored = scorecard.criteria.filter(c => typeof scores[c.id] === 'number');
+  const totalWeight = scored.reduce((sum, c) => sum + Math.max(0, c.weight), 0);
+  if (totalWeight === 0) return 0;
+  return Math.round(scored.reduce((sum, c) => sum + scores[c.id] * Math.max(0, c.weight), 0) / totalWeight);
+};
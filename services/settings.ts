@@ -0,0 +1,28 @@
+import { AppSettings } from "../types";
+import { readValue, writeValue } from "../utils/storage";
+import { DEFAULT_VAD_SETTINGS } from "../utils/vad";
+
+const STORAGE_KEY = 'salgstrener.settings';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  vad: DEFAULT_VAD_SETTINGS,
+  coachEnabled: false,
+  showBuyerState: false,
+  scorecardId: 'standard',
+  evaluationSamples: 1,
+};
+
+// Per-user preferences for this browser. Stored values are merged over the
+// defaults so settings added later get sensible values for existing users.
+export const loadSettings = (): AppSettings => {
+  const stored = readValue<Partial<AppSettings>>(STORAGE_KEY, {});
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    vad: { ...DEFAULT_SETTINGS.vad, ...stored.vad },
+  };
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  writeValue(STORAGE_KEY, settings);
+};
@@ -0,0 +1,217 @@
+import { ChatMessage, EvaluationMetrics, ImprovedReply, Persona, ProductContext, Scorecard, SellingPointCitation, StakeholderScore, SuccessCriterionResult, TranscriptAnnotation } from "../types";
+import { AiError } from "./errors";
+import { computeTotalScore } from "./scorecards";
+import { defaultVoice } from "./voices";
+
+// Runtime checks for AI JSON responses. The model usually follows the
+// response schema, but not always: these validators repair what can safely be
+// repaired and throw a 'schema' AiError for anything that can't.
+
+const TAILWIND_COLORS = [
+  'slate', 'gray', 'zinc', 'neutral', 'stone', 'red', 'orange', 'amber', 'yellow', 'lime', 'green',
+  'emerald', 'teal', 'cyan', 'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose'
+];
+const AVATAR_COLOR_PATTERN = new RegExp(`^bg-(${TAILWIND_COLORS.join('|')})-(50|[1-9]00|950)$`);
+const FALLBACK_AVATAR_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-orange-500', 'bg-pink-500', 'bg-teal-500'];
+
+const isRecord = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object' && data !== null && !Array.isArray(data);
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+
+const asNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+export const isTailwindColor = (value: string) => AVATAR_COLOR_PATTERN.test(value);
+
+// Selling points may come back as plain strings or as { text, source } when
+// the model was given fetched pages or documents. Citations are only kept for
+// sources we actually sent, so the model can't invent one.
+export const validateProductContext = (
+  data: unknown,
+  url: string,
+  sourceUrls: string[] = [],
+  documentNames: string[] = []
+): ProductContext => {
+  if (!isRecord(data)) throw new AiError('schema', 'Product context is not an object');
+  const companyName = asString(data.companyName);
+  if (!companyName) throw new AiError('schema', 'Product context is missing companyName');
+
+  const sellingPoints: string[] = [];
+  const citations: SellingPointCitation[] = [];
+  for (const item of Array.isArray(data.sellingPoints) ? data.sellingPoints : []) {
+    const text = isRecord(item) ? asString(item.text) : asString(item);
+    if (!text) continue;
+    sellingPoints.push(text);
+    const source = isRecord(item) ? asString(item.source) : '';
+    if (sourceUrls.includes(source)) citations.push({ sellingPoint: text, sourceUrl: source });
+    else if (documentNames.includes(source)) citations.push({ sellingPoint: text, sourceDocument: source });
+  }
+  if (sellingPoints.length === 0) throw new AiError('schema', 'Product context has no sellingPoints');
+
+  return {
+    url,
+    companyName,
+    description: asString(data.description),
+    sellingPoints,
+    ...(citations.length > 0 ? { citations } : {}),
+  };
+};
+
+export const validatePersonas = (data: unknown): Persona[] => {
+  if (!Array.isArray(data)) throw new AiError('schema', 'Personas response is not a list');
+
+  const usedIds = new Set<string>();
+  const personas = data.filter(isRecord).filter(p => asString(p.name)).map((p, idx) => {
+    const name = asString(p.name);
+    // Ids key the persona cards, so they must be unique even when the model repeats one.
+    const baseId = asString(p.id) || name.toLowerCase().replace(/[^a-z0-9æøå]+/g, '-');
+    let id = baseId;
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `${baseId}-${n}`;
+    }
+    usedIds.add(id);
+
+    const avatarColor = asString(p.avatarColor);
+    const difficulty = asNumber(p.difficulty);
+    const age = asNumber(p.age);
+    const persona: Persona = {
+      id,
+      name,
+      title: asString(p.title),
+      companySize: asString(p.companySize),
+      industry: asString(p.industry),
+      motivation: asString(p.motivation),
+      painPoints: asString(p.painPoints),
+      communicationStyle: asString(p.communicationStyle),
+      difficulty: difficulty === null ? 3 : clamp(difficulty, 1, 5),
+      avatarColor: isTailwindColor(avatarColor) ? avatarColor : FALLBACK_AVATAR_COLORS[idx % FALLBACK_AVATAR_COLORS.length],
+      gender: p.gender === 'female' || p.gender === 'male' ? p.gender : undefined,
+      age: age === null ? undefined : clamp(age, 18, 80),
+    };
+    // The model describes how the persona talks; the voice itself is picked from gender and age.
+    const dialect = asString(p.dialect);
+    return {
+      ...persona,
+      voice: {
+        ...defaultVoice(persona),
+        ...(asString(p.speakingStyle) ? { style: asString(p.speakingStyle) } : {}),
+        ...(dialect ? { dialect } : {}),
+      },
+    };
+  });
+
+  if (personas.length === 0) throw new AiError('schema', 'No usable personas in response');
+  return personas;
+};
+
+// Annotations must point at a message that exists and a criterion of the
+// scorecard; anything else is dropped rather than shown next to the wrong line.
+const validateAnnotations = (value: unknown, scorecard: Scorecard, messageCount: number): TranscriptAnnotation[] => {
+  if (!Array.isArray(value)) return [];
+  const categories = scorecard.criteria.map(c => c.id);
+  return value
+    .filter(isRecord)
+    .map(item => ({
+      messageIndex: asNumber(item.messageIndex),
+      category: asString(item.category),
+      sentiment: (item.sentiment === 'positive' ? 'positive' : 'negative') as TranscriptAnnotation['sentiment'],
+      comment: asString(item.comment),
+    }))
+    .filter((a): a is TranscriptAnnotation =>
+      a.messageIndex !== null &&
+      Number.isInteger(a.messageIndex) &&
+      a.messageIndex >= 0 &&
+      a.messageIndex < messageCount &&
+      categories.includes(a.category) &&
+      a.comment !== ''
+    )
+    .sort((a, b) => a.messageIndex - b.messageIndex);
+};
+
+// Only the seller's own messages can be replayed, and one suggestion per message is enough.
+const validateImprovedReplies = (value: unknown, transcript: ChatMessage[]): ImprovedReply[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<number>();
+  return value
+    .filter(isRecord)
+    .map(item => ({
+      messageIndex: asNumber(item.messageIndex),
+      reply: asString(item.reply),
+      rationale: asString(item.rationale),
+    }))
+    .filter((r): r is ImprovedReply => {
+      if (r.messageIndex === null || transcript[r.messageIndex]?.role !== 'user' || r.reply === '') return false;
+      if (seen.has(r.messageIndex)) return false;
+      seen.add(r.messageIndex);
+      return true;
+    })
+    .sort((a, b) => a.messageIndex - b.messageIndex);
+};
+
+// Results are matched to the scenario's criteria by index; criteria the model
+// skipped count as not met, so the list always mirrors the scenario.
+const validateSuccessCriteria = (value: unknown, criteria: string[]): SuccessCriterionResult[] => {
+  const results = Array.isArray(value) ? value.filter(isRecord) : [];
+  return criteria.map((criterion, i) => {
+    const result = results.find(r => asNumber(r.index) === i);
+    return {
+      criterion,
+      met: result?.met === true,
+      comment: result ? asString(result.comment) : '',
+    };
+  });
+};
+
+// One score per committee member, keyed by persona id like the criterion scores.
+// Members the model left out are skipped rather than guessed.
+const validateStakeholders = (value: unknown, committee: Persona[]): StakeholderScore[] => {
+  const raw = isRecord(value) ? value : {};
+  return committee.flatMap(({ id }) => {
+    const entry = raw[id];
+    const score = isRecord(entry) ? asNumber(entry.score) : null;
+    if (!isRecord(entry) || score === null) return [];
+    return [{ personaId: id, score: clamp(score, 0, 100), comment: asString(entry.comment) }];
+  });
+};
+
+// The total is always computed from the criterion scores and weights, so it
+// can't drift from the scores shown next to it.
+export const validateEvaluation = (
+  data: unknown,
+  scorecard: Scorecard,
+  transcript: ChatMessage[] = [],
+  successCriteria: string[] = [],
+  committee: Persona[] = []
+): EvaluationMetrics => {
+  if (!isRecord(data)) throw new AiError('schema', 'Evaluation is not an object');
+  const rawScores = isRecord(data.scores) ? data.scores : {};
+
+  const scores: Record<string, number> = {};
+  for (const { id } of scorecard.criteria) {
+    const value = asNumber(rawScores[id]);
+    if (value === null) throw new AiError('schema', `Evaluation is missing a score for ${id}`);
+    scores[id] = clamp(value, 0, 100);
+  }
+
+  return {
+    scorecardId: scorecard.id,
+    scores,
+    totalScore: computeTotalScore(scores, scorecard),
+    goodPoints: asStringList(data.goodPoints),
+    improvementPoints: asStringList(data.improvementPoints),
+    nextSteps: asStringList(data.nextSteps),
+    annotations: validateAnnotations(data.annotations, scorecard, transcript.length),
+    improvedReplies: validateImprovedReplies(data.improvedReplies, transcript),
+    successCriteria: validateSuccessCriteria(data.successCriteria, successCriteria),
+    ...(committee.length > 1 ? { stakeholders: validateStakeholders(data.stakeholders, committee) } : {}),
+  };
+};
@@ -0,0 +1,57 @@
+import { Persona, PersonaVoice } from "../types";
+
+export interface VoiceOption {
+  name: string;
+  gender: 'female' | 'male';
+  // Younger-sounding voices suit personas under 40.
+  young: boolean;
+  // Firmer voices suit the harder personas.
+  firm: boolean;
+  label: string;
+}
+
+// Prebuilt voices shared by Gemini's live and text-to-speech models.
+export const PREBUILT_VOICES: VoiceOption[] = [
+  { name: 'Zephyr', gender: 'female', young: true, firm: false, label: 'Lys og energisk' },
+  { name: 'Leda', gender: 'female', young: true, firm: true, label: 'Ungdommelig' },
+  { name: 'Aoede', gender: 'female', young: false, firm: false, label: 'Luftig og avslappet' },
+  { name: 'Kore', gender: 'female', young: false, firm: true, label: 'Fast og bestemt' },
+  { name: 'Puck', gender: 'male', young: true, firm: false, label: 'Optimistisk' },
+  { name: 'Fenrir', gender: 'male', young: true, firm: true, label: 'Engasjert' },
+  { name: 'Orus', gender: 'male', young: false, firm: false, label: 'Rolig' },
+  { name: 'Charon', gender: 'male', young: false, firm: true, label: 'Dyp og saklig' },
+];
+
+export const SPEAKING_RATES: { value: PersonaVoice['speakingRate']; label: string }[] = [
+  { value: 'slow', label: 'Rolig' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'fast', label: 'Rask' },
+];
+
+export const DIALECTS = ['Østlandsk', 'Bergensk', 'Stavangersk', 'Sørlandsk', 'Trøndersk', 'Nordnorsk'];
+
+const YOUNG_AGE_LIMIT = 40;
+
+// Picks a voice that fits who the persona is: gender and age first, then a
+// firmer voice for the harder personas. Without a gender every voice is a
+// candidate and the persona id picks one, so it stays the same between calls.
+export const defaultVoice = (persona: Persona): PersonaVoice => {
+  const young = persona.age !== undefined ? persona.age < YOUNG_AGE_LIMIT : undefined;
+  const firm = persona.difficulty >= 4;
+  const candidates = PREBUILT_VOICES.filter(v =>
+    (!persona.gender || v.gender === persona.gender) &&
+    (young === undefined || v.young === young) &&
+    (!persona.gender || young === undefined || v.firm === firm)
+  );
+  const seed = Array.from(persona.id).reduce((sum, ch) => sum + ch.charCodeAt(0), 0);
+  const voice = candidates[seed % candidates.length] ?? PREBUILT_VOICES[0];
+
+  const style = persona.communicationStyle.toLowerCase();
+  const speakingRate = /utålmodig|kort|stresset|travel/.test(style) ? 'fast'
+    : /rolig|grundig|avmålt/.test(style) ? 'slow'
+    : 'normal';
+
+  return { voiceName: voice.name, speakingRate, style: persona.communicationStyle };
+};
+
+export const resolveVoice = (persona: Persona): PersonaVoice => persona.voice ?? defaultVoice(persona);
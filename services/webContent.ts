@@ -0,0 +1,106 @@
+import { SourcePage } from "../types";
+
+// Fetches a product website in the browser and reduces it to plain text the
+// model can read. Cross-origin pages need the fetch proxy that the Vite dev
+// server exposes (see vite.config.ts); without it we try a direct request,
+// which works for sites that allow CORS.
+
+const PROXY_PREFIX = process.env.FETCH_PROXY_URL || '/api/fetch?url=';
+const MAX_CHARS_PER_PAGE = 6000;
+const MAX_EXTRA_PAGES = 3;
+
+// Internal pages that usually hold the facts a seller needs.
+const RELEVANT_LINK_PATTERN = /(pris|priser|pricing|price|om-oss|om_oss|about|produkt|product|tjenester|services|losning|løsning|solution|funksjoner|features|kunder|customers|case)/i;
+
+const BOILERPLATE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form',
+  'nav', 'header', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[aria-hidden="true"]',
+  '[class*="cookie"]', '[id*="cookie"]', '[class*="consent"]', '[class*="newsletter"]'
+].join(',');
+
+const fetchHtml = async (url: string): Promise<string> => {
+  const attempts = [`${PROXY_PREFIX}${encodeURIComponent(url)}`, url];
+  let lastError: unknown;
+  for (const target of attempts) {
+    try {
+      const response = await fetch(target);
+      if (!response.ok) throw new Error(`Fetching ${url} failed with status ${response.status}`);
+      return await response.text();
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+interface ParsedPage extends SourcePage {
+  links: string[];
+}
+
+export const parsePage = (html: string, url: string): ParsedPage => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const links = Array.from(doc.querySelectorAll('a[href]'))
+    .map(a => {
+      try {
+        return new URL(a.getAttribute('href') ?? '', url).href.split('#')[0];
+      } catch {
+        return '';
+      }
+    })
+    .filter(Boolean);
+
+  doc.querySelectorAll(BOILERPLATE_SELECTORS).forEach(el => el.remove());
+  const root = doc.querySelector('main, article, [role="main"]') ?? doc.body;
+  const text = (root?.textContent ?? '').replace(/\s+/g, ' ').trim().slice(0, MAX_CHARS_PER_PAGE);
+
+  return { url, title: doc.title.trim(), text, links };
+};
+
+export const pickRelevantLinks = (links: string[], baseUrl: string, max: number = MAX_EXTRA_PAGES): string[] => {
+  const base = new URL(baseUrl);
+  const seen = new Set([base.href.split('#')[0]]);
+  const picked: string[] = [];
+  for (const link of links) {
+    if (picked.length >= max) break;
+    let parsed: URL;
+    try {
+      parsed = new URL(link);
+    } catch {
+      continue;
+    }
+    if (parsed.origin !== base.origin || seen.has(parsed.href)) continue;
+    if (/\.(pdf|jpe?g|png|gif|zip|docx?)$/i.test(parsed.pathname)) continue;
+    seen.add(parsed.href);
+    if (RELEVANT_LINK_PATTERN.test(parsed.pathname)) picked.push(parsed.href);
+  }
+  return picked;
+};
+
+// Fetches the given page plus a few relevant internal pages. Pages that fail
+// to load are skipped; an empty list means the site could not be read at all.
+export const crawlProductSite = async (url: string): Promise<SourcePage[]> => {
+  let start: ParsedPage;
+  try {
+    start = parsePage(await fetchHtml(url), url);
+  } catch (error) {
+    console.error("Error fetching product site:", error);
+    return [];
+  }
+
+  const extra = await Promise.all(
+    pickRelevantLinks(start.links, url).map(async link => {
+      try {
+        return parsePage(await fetchHtml(link), link);
+      } catch (error) {
+        console.error(`Error fetching ${link}:`, error);
+        return null;
+      }
+    })
+  );
+
+  return [start, ...extra]
+    .filter((page): page is ParsedPage => page !== null && page.text.length > 0)
+    .map(({ url, title, text }) => ({ url, title, text }));
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, Persona, ProductContext } from '../types';
+import { COLD_CALL_SCENARIO } from '../services/scenarios';
+import { BuyerState, describeBuyerState, HANG_UP_IRRITATION, initialBuyerState, trackBuyerState } from '../utils/buyerState';
+
+const persona = (difficulty: number): Persona => ({
+  id: 'kari',
+  name: 'Kari Nordmann',
+  title: 'Daglig leder',
+  companySize: '10 ansatte',
+  industry: 'Frisør',
+  motivation: '',
+  painPoints: '',
+  communicationStyle: '',
+  difficulty,
+  avatarColor: 'bg-blue-500',
+});
+
+const PRODUCT: ProductContext = {
+  url: '',
+  companyName: 'Fjordsky',
+  description: '',
+  sellingPoints: ['Fast pris'],
+  competitors: ['Tripletex'],
+};
+
+const buyer = (text: string, seconds = 0): ChatMessage => ({ role: 'model', text, timestamp: seconds * 1000 });
+const seller = (text: string, seconds = 0): ChatMessage => ({ role: 'user', text, timestamp: seconds * 1000 });
+
+const MONOLOGUE = Array.from({ length: 90 }, () => 'ord').join(' ');
+
+const finalState = (transcript: ChatMessage[], difficulty = 3) => {
+  const snapshots = trackBuyerState(transcript, persona(difficulty), PRODUCT);
+  return snapshots[snapshots.length - 1];
+};
+
+describe('initialBuyerState', () => {
+  it.each([
+    [1, { interest: 48, trust: 49, irritation: 5, remainingSeconds: 520 }],
+    [3, { interest: 34, trust: 37, irritation: 15, remainingSeconds: 360 }],
+    [5, { interest: 20, trust: 25, irritation: 25, remainingSeconds: 200 }],
+  ])('difficulty %i starts at %j', (difficulty, expected) => {
+    expect(initialBuyerState(persona(difficulty))).toMatchObject(expected);
+  });
+
+  it('lets the scenario shift the starting mood and time', () => {
+    const state = initialBuyerState(persona(3), { ...COLD_CALL_SCENARIO, mood: { interest: 20, trust: 10, minutes: 30 } });
+    expect(state).toMatchObject({ interest: 54, trust: 47, remainingSeconds: 1560 });
+  });
+});
+
+// Difficulty 3 starts at interest 34, trust 37, irritation 15 and reacts 1.2x to mistakes.
+describe('trackBuyerState', () => {
+  it.each([
+    ['an open question', 'Hvordan fører dere bilag i dag?', { interest: 40, trust: 37, irritation: 13 }],
+    ['offering a discount', 'Du får tjue prosent rabatt hvis du bestemmer deg nå.', { interest: 34, trust: 29, irritation: 15 }],
+    ['asking for a meeting too early', 'Kan vi ta et møte?', { interest: 40, trust: 37, irritation: 23 }],
+    ['a monologue', MONOLOGUE, { interest: 29, trust: 37, irritation: 29 }],
+  ])('reacts to %s', (_, line, expected) => {
+    expect(finalState([buyer('Hallo, det er Kari.'), seller(line)])).toMatchObject(expected);
+  });
+
+  it.each([
+    ['acknowledged', 'Jeg forstår. Hva sammenligner du med?', { objectionsResolved: 1, trust: 47, irritation: 9 }],
+    ['ignored', 'Vi er best i markedet.', { objectionsResolved: 0, trust: 33, irritation: 25 }],
+  ])('tracks an objection that is %s', (_, reply, expected) => {
+    const state = finalState([buyer('Det er for dyrt.'), seller(reply)]);
+    expect(state).toMatchObject({ objectionsRaised: 1, ...expected });
+  });
+
+  it('counts a named competitor as an objection', () => {
+    expect(finalState([buyer('Vi bruker Tripletex.')]).objectionsRaised).toBe(1);
+  });
+
+  it('costs patience once the seller runs over the buyer\'s time', () => {
+    const onTime = finalState([buyer('Hallo.'), seller('Vi har fast pris.', 300)]);
+    const overTime = finalState([buyer('Hallo.'), seller('Vi har fast pris.', 400)]);
+    expect(overTime.remainingSeconds).toBe(-40);
+    expect(overTime.irritation - onTime.irritation).toBe(6);
+  });
+
+  it('hangs up at the irritation limit and ignores everything after it', () => {
+    const transcript = [
+      seller(MONOLOGUE), buyer('Mm.'),
+      seller(MONOLOGUE), buyer('Mm.'),
+      seller(MONOLOGUE), buyer('Mm.'),
+      seller(MONOLOGUE), buyer('Mm.'),
+      seller('Hvordan høres det ut?'),
+    ];
+    const snapshots = trackBuyerState(transcript, persona(5), PRODUCT);
+    expect(snapshots.map(s => s.hungUp)).toEqual([false, false, false, false, false, false, false, true]);
+    expect(snapshots[snapshots.length - 1].irritation).toBeGreaterThanOrEqual(HANG_UP_IRRITATION);
+    expect(snapshots[snapshots.length - 1].messageIndex).toBe(6);
+  });
+});
+
+describe('describeBuyerState', () => {
+  const state = (fields: Partial<BuyerState>): BuyerState => ({
+    ...initialBuyerState(persona(3)),
+    ...fields,
+  });
+
+  it.each([
+    [{ hungUp: true }, 'avslutt samtalen'],
+    [{ interest: 70, trust: 40, irritation: 10 }, 'interesse høy, tillit middels, irritasjon lav'],
+    [{ remainingSeconds: 30 }, 'du har snart ikke mer tid'],
+    [{ remainingSeconds: -5 }, 'du har egentlig ikke mer tid og vil avrunde'],
+    [{ objectionsRaised: 1 }, '1 innvending er ikke besvart godt nok, og du tar den gjerne opp igjen'],
+    [{ objectionsRaised: 3, objectionsResolved: 1 }, '2 innvendinger er ikke besvart godt nok, og du tar dem gjerne opp igjen'],
+  ])('%j mentions "%s"', (fields, expected) => {
+    expect(describeBuyerState(state(fields))).toContain(expected);
+  });
+});
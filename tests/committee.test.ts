@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, Persona } from '../types';
+import { attributeSpeakers, withSpeakerTags } from '../utils/committee';
+
+const member = (id: string, name: string): Persona => ({
+  id,
+  name,
+  title: '',
+  companySize: '',
+  industry: '',
+  motivation: '',
+  painPoints: '',
+  communicationStyle: '',
+  difficulty: 3,
+  avatarColor: 'bg-blue-500',
+});
+
+const COMMITTEE = [member('kari', 'Kari Nordmann'), member('ola', 'Ola Hansen')];
+
+const buyer = (text: string, speakerId?: string): ChatMessage => ({ role: 'model', text, timestamp: 0, ...(speakerId ? { speakerId } : {}) });
+const seller = (text: string): ChatMessage => ({ role: 'user', text, timestamp: 0 });
+
+const lines = (transcript: ChatMessage[]) => transcript.map(m => [m.speakerId ?? m.role, m.text]);
+
+describe('attributeSpeakers', () => {
+  it.each([
+    ['a first-name prefix', 'Ola: Hva koster det?', [['ola', 'Hva koster det?']]],
+    ['a full-name prefix', 'Ola Hansen: Ja.', [['ola', 'Ja.']]],
+    ['a lowercase name', 'ola: ja', [['ola', 'ja']]],
+    ['"her" instead of a colon', 'Ola her, vi bruker Tripletex.', [['ola', 'vi bruker Tripletex.']]],
+    ['several speakers in one reply', 'Kari: Hei. Ola: Hva gjelder det?', [['kari', 'Hei.'], ['ola', 'Hva gjelder det?']]],
+    ['speakers on separate lines', 'Kari: Hei.\nOla: Hei hei.', [['kari', 'Hei.'], ['ola', 'Hei hei.']]],
+    ['no name, given to the lead', 'Hva gjelder det?', [['kari', 'Hva gjelder det?']]],
+    ['a name mid-sentence', 'Jeg er enig med Ola: det er dyrt.', [['kari', 'Jeg er enig med Ola: det er dyrt.']]],
+    ['the same speaker twice', 'Ola: Nei. Ola: Altså, ikke nå.', [['ola', 'Nei. Altså, ikke nå.']]],
+  ])('splits %s', (_, text, expected) => {
+    expect(lines(attributeSpeakers([buyer(text)], COMMITTEE))).toEqual(expected);
+  });
+
+  it('gives untagged text to whoever spoke last', () => {
+    const transcript = [buyer('Ola: Hvem er du?'), seller('Jeg ringer fra Fjordsky.'), buyer('Og hva vil du?')];
+    expect(lines(attributeSpeakers(transcript, COMMITTEE))).toEqual([
+      ['ola', 'Hvem er du?'],
+      ['user', 'Jeg ringer fra Fjordsky.'],
+      ['ola', 'Og hva vil du?'],
+    ]);
+  });
+
+  it('leaves seller messages and already attributed lines alone', () => {
+    const transcript = [seller('Ola: dette er selgeren'), buyer('Kari: uendret', 'ola')];
+    expect(attributeSpeakers(transcript, COMMITTEE)).toEqual(transcript);
+  });
+});
+
+describe('withSpeakerTags', () => {
+  it('joins consecutive buyer lines into one tagged turn', () => {
+    const transcript = [buyer('Hei.', 'kari'), buyer('Hva gjelder det?', 'ola'), seller('Regnskap.')];
+    expect(withSpeakerTags(transcript, COMMITTEE).map(m => m.text)).toEqual([
+      'Kari: Hei.\nOla: Hva gjelder det?',
+      'Regnskap.',
+    ]);
+  });
+
+  it('round-trips through attributeSpeakers', () => {
+    const transcript = [buyer('Hei.', 'kari'), buyer('Hva gjelder det?', 'ola'), seller('Regnskap.'), buyer('For dyrt.', 'ola')];
+    expect(lines(attributeSpeakers(withSpeakerTags(transcript, COMMITTEE), COMMITTEE))).toEqual(lines(transcript));
+  });
+});
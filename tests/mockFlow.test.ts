@@ -0,0 +1,51 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ChatMessage } from '../types';
+import { evaluateSession, extractProductInfo, generatePersonas } from '../services/gemini';
+import { getProvider } from '../services/providers';
+import { buildPersonaInstruction } from '../services/prompts';
+import { COLD_CALL_SCENARIO } from '../services/scenarios';
+import { STANDARD_SCORECARD } from '../services/scorecards';
+
+// Smoke test of the whole training flow against the offline mock backend:
+// product → personas → chat → evaluation, the same calls the UI makes.
+describe('mock provider flow', () => {
+  beforeAll(() => {
+    // Read when each request is made, like the build-time define in the app.
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+  });
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('runs from product description to evaluation', async () => {
+    const product = await extractProductInfo('', 'Skybasert regnskapssystem for små bedrifter.');
+    if (!product.ok) throw product.error;
+    expect(product.value.companyName).toBe('Fjordsky Regnskap');
+
+    const personas = await generatePersonas(product.value);
+    if (!personas.ok) throw personas.error;
+    expect(personas.value.length).toBeGreaterThan(0);
+    const persona = personas.value[0];
+    expect(persona.voice).toBeDefined();
+
+    const chat = getProvider().createChat({
+      systemInstruction: buildPersonaInstruction(persona, product.value, COLD_CALL_SCENARIO, 'chat'),
+    });
+    const transcript: ChatMessage[] = [];
+    for (const text of ['Hei, jeg ringer fra Fjordsky.', 'Hvordan fører dere bilag i dag?', 'Vi har fast pris uten binding.']) {
+      transcript.push({ role: 'user', text, timestamp: transcript.length });
+      const reply = await chat.sendMessage(text);
+      expect(reply).not.toBe('');
+      transcript.push({ role: 'model', text: reply, timestamp: transcript.length });
+    }
+
+    const evaluation = await evaluateSession(transcript, product.value, persona, COLD_CALL_SCENARIO, STANDARD_SCORECARD);
+    if (!evaluation.ok) throw evaluation.error;
+    for (const { id } of STANDARD_SCORECARD.criteria) {
+      expect(evaluation.value.scores[id]).toBeGreaterThanOrEqual(0);
+      expect(evaluation.value.scores[id]).toBeLessThanOrEqual(100);
+    }
+    expect(evaluation.value.totalScore).toBeGreaterThan(0);
+    expect(evaluation.value.annotations?.every(a => a.messageIndex < transcript.length)).toBe(true);
+  });
+});
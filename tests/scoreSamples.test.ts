@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { EvaluationMetrics, Scorecard } from '../types';
+import { combineEvaluations, consistencyLevel, median } from '../utils/scoreSamples';
+
+const SCORECARD: Scorecard = {
+  id: 'test',
+  name: 'Test',
+  description: '',
+  criteria: [
+    { id: 'opening', name: 'Åpning', weight: 1, color: '#000', description: '' },
+    { id: 'closing', name: 'Closing', weight: 1, color: '#000', description: '' },
+  ],
+};
+
+// The feedback text names the run, so the test can see which one was picked.
+const run = (name: string, opening: number, closing: number): EvaluationMetrics => ({
+  scorecardId: SCORECARD.id,
+  scores: { opening, closing },
+  totalScore: Math.round((opening + closing) / 2),
+  goodPoints: [name],
+  improvementPoints: [],
+  nextSteps: [],
+});
+
+describe('median', () => {
+  it.each([
+    [[], 0],
+    [[40], 40],
+    [[90, 10, 50], 50],
+    [[10, 20, 30, 40], 25],
+    // Even-length medians are rounded to whole points.
+    [[10, 11], 11],
+    [[70, 20, 55, 60], 58],
+  ])('median(%j) is %i', (values, expected) => {
+    expect(median(values)).toBe(expected);
+  });
+});
+
+describe('combineEvaluations', () => {
+  it('returns a single requested run unchanged', () => {
+    const single = run('a', 60, 80);
+    expect(combineEvaluations([single], SCORECARD)).toBe(single);
+  });
+
+  it('takes the median per criterion and recomputes the total', () => {
+    const result = combineEvaluations([run('a', 60, 80), run('b', 70, 60), run('c', 90, 70)], SCORECARD);
+    expect(result.scores).toEqual({ opening: 70, closing: 70 });
+    expect(result.totalScore).toBe(70);
+  });
+
+  it('uses the feedback of the run whose total is closest to the median total', () => {
+    const result = combineEvaluations([run('b', 70, 60), run('c', 90, 70), run('a', 60, 80)], SCORECARD);
+    expect(result.goodPoints).toEqual(['a']);
+  });
+
+  it('records the spread between the runs', () => {
+    const { consistency } = combineEvaluations([run('a', 60, 80), run('b', 70, 60), run('c', 90, 70)], SCORECARD);
+    expect(consistency).toEqual({ samples: 3, spread: { opening: 30, closing: 20 }, totalSpread: 15 });
+  });
+
+  it('records how many runs were requested when some failed', () => {
+    const { consistency } = combineEvaluations([run('a', 60, 80), run('b', 70, 60)], SCORECARD, 3);
+    expect(consistency?.samples).toBe(2);
+    expect(consistency?.requested).toBe(3);
+  });
+
+  it('still reports the failed runs when only one run is left', () => {
+    const result = combineEvaluations([run('a', 60, 80)], SCORECARD, 3);
+    expect(result.scores).toEqual({ opening: 60, closing: 80 });
+    expect(result.consistency).toEqual({ samples: 1, requested: 3, spread: { opening: 0, closing: 0 }, totalSpread: 0 });
+  });
+});
+
+describe('consistencyLevel', () => {
+  it.each([
+    [{}, 'high'],
+    [{ opening: 0, closing: 10 }, 'high'],
+    [{ opening: 11, closing: 3 }, 'medium'],
+    [{ opening: 20, closing: 20 }, 'medium'],
+    [{ opening: 5, closing: 21 }, 'low'],
+  ])('spread %j is %s', (spread, level) => {
+    expect(consistencyLevel({ samples: 3, spread, totalSpread: 0 })).toBe(level);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatMessage, SpeechTimeline } from '../types';
+import { analyzeSpeech, countQuestions, createTalkTracker } from '../utils/speechAnalytics';
+
+const STARTED_AT = 1_000_000;
+
+const seller = (text: string, at: number): ChatMessage => ({ role: 'user', text, timestamp: STARTED_AT + at });
+const buyer = (text: string, at: number): ChatMessage => ({ role: 'model', text, timestamp: STARTED_AT + at });
+
+const timeline = (fields: Partial<SpeechTimeline>): SpeechTimeline => ({
+  startedAt: STARTED_AT,
+  seller: [],
+  buyer: [],
+  voice: [{ start: 0, end: 60_000 }],
+  durationMs: 60_000,
+  ...fields,
+});
+
+describe('analyzeSpeech', () => {
+  it('counts filler words on whole words only, most frequent first', () => {
+    const metrics = analyzeSpeech([
+      seller('Eh, altså, jeg ringer om regnskap, ikke sant?', 0),
+      seller('Ehm, eh, hm.', 1000),
+      buyer('Eh, hva gjelder det?', 2000),
+    ]);
+    expect(metrics.fillerWords).toEqual([
+      { word: 'eh', count: 2 },
+      { word: 'ehm', count: 1 },
+      { word: 'hm', count: 1 },
+      { word: 'ikke sant', count: 1 },
+      { word: 'altså', count: 1 },
+    ]);
+    expect(metrics.fillerWordTotal).toBe(6);
+  });
+
+  it('leaves out timing metrics without a voice timeline', () => {
+    const metrics = analyzeSpeech([seller('Hei', 0)]);
+    expect(metrics.talkRatio).toBeUndefined();
+    expect(metrics.wordsPerMinute).toBeUndefined();
+  });
+
+  it('computes the seller share of talk time', () => {
+    const metrics = analyzeSpeech([], timeline({
+      seller: [{ start: 0, end: 3000 }],
+      buyer: [{ start: 4000, end: 5000 }],
+    }));
+    expect(metrics.sellerTalkMs).toBe(3000);
+    expect(metrics.buyerTalkMs).toBe(1000);
+    expect(metrics.talkRatio).toBe(0.75);
+  });
+
+  it('bases words per minute only on seller messages spoken during the call', () => {
+    const carriedOver = 'Dette er en lang melding fra økten som ble forgrenet og som aldri ble sagt høyt i samtalen';
+    const metrics = analyzeSpeech([
+      // From the session this one was forked from, before the call started.
+      seller(carriedOver, -120_000),
+      seller('en to tre fire fem seks sju åtte ni ti', 5000),
+      // Typed while the rep had switched to chat mode.
+      seller('skrevet i chatten mens samtalen var satt på pause', 40_000),
+    ], timeline({
+      seller: [{ start: 2000, end: 8000 }],
+      voice: [{ start: 0, end: 30_000 }, { start: 50_000, end: 60_000 }],
+    }));
+    // Ten words in six seconds of talk.
+    expect(metrics.wordsPerMinute).toBe(100);
+  });
+
+  it('finds the longest monologue, broken by long pauses or buyer speech', () => {
+    const metrics = analyzeSpeech([], timeline({
+      seller: [
+        { start: 0, end: 3000 },
+        { start: 4000, end: 6000 },
+        { start: 7100, end: 8000 },
+        { start: 11_000, end: 12_000 },
+      ],
+      buyer: [{ start: 6500, end: 7000 }],
+    }));
+    expect(metrics.longestMonologueMs).toBe(6000);
+  });
+
+  it('counts seller speech starting while the buyer talks as an interruption', () => {
+    const metrics = analyzeSpeech([], timeline({
+      seller: [{ start: 1500, end: 2500 }, { start: 3000, end: 4000 }, { start: 6000, end: 7000 }],
+      buyer: [{ start: 1000, end: 3000 }, { start: 5000, end: 8000 }],
+    }));
+    expect(metrics.interruptions).toBe(2);
+  });
+});
+
+describe('countQuestions', () => {
+  it.each([
+    ['Hva bruker dere i dag.', 1],
+    ['Det er fint! Har dere vurdert å bytte?', 1],
+    ['Hvordan fører dere bilag. Hvem gjør det', 2],
+    ['Vi har fast pris uten binding.', 0],
+    ['Hvaler er store.', 0],
+  ])('%s has %i question(s)', (text, expected) => {
+    expect(countQuestions([text])).toBe(expected);
+  });
+});
+
+describe('createTalkTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(STARTED_AT);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const at = (ms: number) => vi.setSystemTime(STARTED_AT + ms);
+
+  it('records seller spans without the trailing hangover', () => {
+    const tracker = createTalkTracker();
+    tracker.sellerStarted();
+    at(2000);
+    tracker.sellerStopped(500);
+    expect(tracker.finish().seller).toEqual([{ start: 0, end: 1500 }]);
+  });
+
+  it('merges back-to-back buyer audio and cuts it when the buyer is interrupted', () => {
+    const tracker = createTalkTracker();
+    at(2000);
+    tracker.addBuyerAudio(1000, 200);
+    tracker.addBuyerAudio(1000, 1220);
+    tracker.addBuyerAudio(500, 5000);
+    at(3000);
+    tracker.buyerInterrupted();
+    expect(tracker.finish().buyer).toEqual([{ start: 2200, end: 3000 }]);
+  });
+
+  it('tracks the live periods of a call that switches to chat and back', () => {
+    const tracker = createTalkTracker();
+    at(1000);
+    tracker.sellerStarted();
+    at(4000);
+    // Leaving for chat ends the seller's turn too.
+    tracker.pause();
+    at(6000);
+    tracker.resume();
+    at(7000);
+    const result = tracker.finish();
+    expect(result.startedAt).toBe(STARTED_AT);
+    expect(result.seller).toEqual([{ start: 1000, end: 4000 }]);
+    expect(result.voice).toEqual([{ start: 0, end: 4000 }, { start: 6000, end: 7000 }]);
+    expect(result.durationMs).toBe(7000);
+  });
+});
@@ -0,0 +1,129 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { CHUNK_SAMPLES } from '../utils/captureWorklet';
+import { createVoiceActivityDetector, DEFAULT_VAD_SETTINGS, estimateNoiseFloor, VadChunk } from '../utils/vad';
+
+// Fixtures are 16 kHz PCM16, written by scripts/generate-vad-fixtures.mjs.
+const CHUNK_MS = 20;
+const SPEECH_START_MS = 1000;
+const SPEECH_END_MS = 2500;
+const FAN_ON_MS = 1000;
+
+// Splits a fixture into the chunks the capture worklet would post, with the same RMS.
+const loadChunks = (name: string): VadChunk[] => {
+  const bytes = readFileSync(new URL(`./fixtures/vad/${name}`, import.meta.url));
+  const samples = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.length / 2);
+  const chunks: VadChunk[] = [];
+  for (let start = 0; start + CHUNK_SAMPLES <= samples.length; start += CHUNK_SAMPLES) {
+    const pcm = samples.slice(start, start + CHUNK_SAMPLES);
+    let sum = 0;
+    for (const s of pcm) sum += (s / 0x8000) ** 2;
+    chunks.push({ pcm: pcm.buffer, rms: Math.sqrt(sum / CHUNK_SAMPLES) });
+  }
+  return chunks;
+};
+
+const run = (chunks: VadChunk[], settings = DEFAULT_VAD_SETTINGS) => {
+  const vad = createVoiceActivityDetector(settings, CHUNK_MS);
+  const results = chunks.map(chunk => vad.process(chunk));
+  return { vad, results };
+};
+
+const chunkAt = (ms: number) => Math.floor(ms / CHUNK_MS);
+
+describe('createVoiceActivityDetector', () => {
+  const speech = loadChunks('quiet-room-speech.pcm');
+
+  it('opens on speech and sends nothing in the quiet room around it', () => {
+    const { results } = run(speech);
+    const opened = results.findIndex(r => r.speaking);
+
+    expect(opened).toBeGreaterThanOrEqual(chunkAt(SPEECH_START_MS));
+    expect(opened).toBeLessThan(chunkAt(SPEECH_START_MS + 100));
+    expect(results.slice(0, opened).every(r => r.send.length === 0)).toBe(true);
+    expect(results.filter(r => r.speechEnded)).toHaveLength(1);
+  });
+
+  it('sends the pre-roll from before the gate opened', () => {
+    const { results } = run(speech);
+    const opened = results.findIndex(r => r.speaking);
+    const sent = results[opened].send;
+
+    // The pre-roll, the chunk that started the attack and the chunk that opened the gate.
+    const preRollChunks = DEFAULT_VAD_SETTINGS.preRollMs / CHUNK_MS;
+    expect(sent).toHaveLength(preRollChunks + 2);
+    expect(sent).toEqual(speech.slice(opened - preRollChunks - 1, opened + 1).map(c => c.pcm));
+  });
+
+  it('keeps sending through pauses between words and for the hangover after speech', () => {
+    const { results } = run(speech);
+    const opened = results.findIndex(r => r.speaking);
+    const ended = results.findIndex(r => r.speechEnded);
+
+    expect(results.slice(opened, ended + 1).every(r => r.send.length > 0)).toBe(true);
+    expect(ended * CHUNK_MS).toBeGreaterThanOrEqual(SPEECH_END_MS + DEFAULT_VAD_SETTINGS.hangoverMs - 100);
+    expect(ended * CHUNK_MS).toBeLessThan(SPEECH_END_MS + DEFAULT_VAD_SETTINGS.hangoverMs + 200);
+    expect(results.slice(ended + 1).every(r => r.send.length === 0)).toBe(true);
+  });
+
+  it('follows a longer hangover setting', () => {
+    const hangoverMs = 1000;
+    const { results } = run(speech, { ...DEFAULT_VAD_SETTINGS, hangoverMs });
+    const ended = results.findIndex(r => r.speechEnded);
+
+    expect(ended * CHUNK_MS).toBeGreaterThanOrEqual(SPEECH_END_MS + hangoverMs - 100);
+  });
+
+  it('sends no pre-roll when it is turned off', () => {
+    const { results } = run(speech, { ...DEFAULT_VAD_SETTINGS, preRollMs: 0 });
+    const opened = results.findIndex(r => r.speaking);
+
+    expect(results[opened].send).toHaveLength(2);
+  });
+
+  it('raises the floor and closes again when the room gets louder', () => {
+    const { vad, results } = run(loadChunks('noise-rise.pcm'));
+    const closed = results.findIndex(r => r.speechEnded);
+
+    // The fan opens the gate, but it must not stay open for the rest of the call.
+    expect(results.some(r => r.speaking)).toBe(true);
+    expect(closed).toBeGreaterThan(chunkAt(FAN_ON_MS));
+    expect(closed).toBeLessThan(chunkAt(FAN_ON_MS + 3500));
+    expect(results.slice(closed + 1).every(r => !r.speaking)).toBe(true);
+    expect(vad.getNoiseFloor()).toBeGreaterThan(0.025);
+  });
+
+  it('lowers the floor quickly when the room gets quieter', () => {
+    const { vad } = run(speech.slice(0, chunkAt(SPEECH_START_MS)), { ...DEFAULT_VAD_SETTINGS, noiseFloor: 0.02 });
+
+    expect(vad.getNoiseFloor()).toBeLessThan(0.006);
+  });
+
+  it('starts over after reset', () => {
+    const { vad, results } = run(speech.slice(0, chunkAt(SPEECH_START_MS + 500)));
+    expect(results[results.length - 1].speaking).toBe(true);
+
+    vad.reset();
+    expect(vad.process(speech[0]).speaking).toBe(false);
+  });
+});
+
+describe('estimateNoiseFloor', () => {
+  it('measures the background level of a quiet room', () => {
+    const quiet = loadChunks('quiet-room-speech.pcm').slice(0, chunkAt(SPEECH_START_MS));
+    const floor = estimateNoiseFloor(quiet.map(c => c.rms));
+
+    expect(floor).toBeGreaterThan(0.0035);
+    expect(floor).toBeLessThan(0.005);
+  });
+
+  it('ignores a few loud clicks', () => {
+    const levels = [...Array(95).fill(0.004), 0.3, 0.3, 0.3, 0.3, 0.3];
+
+    expect(estimateNoiseFloor(levels)).toBe(0.004);
+  });
+
+  it('falls back to the default floor without measurements', () => {
+    expect(estimateNoiseFloor([])).toBe(createVoiceActivityDetector().getNoiseFloor());
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage, Persona, Scorecard } from '../types';
+import { AiError } from '../services/errors';
+import { validateEvaluation, validatePersonas } from '../services/validation';
+
+// Two criteria with different weights, so the computed total shows the weighting.
+const SCORECARD: Scorecard = {
+  id: 'test',
+  name: 'Test',
+  description: '',
+  criteria: [
+    { id: 'opening', name: 'Åpning', weight: 1, color: '#000', description: '' },
+    { id: 'closing', name: 'Closing', weight: 3, color: '#000', description: '' },
+  ],
+};
+
+const TRANSCRIPT: ChatMessage[] = [
+  { role: 'model', text: 'Hallo?', timestamp: 0 },
+  { role: 'user', text: 'Hei, jeg ringer fra Fjordsky.', timestamp: 1 },
+  { role: 'model', text: 'Hva gjelder det?', timestamp: 2 },
+  { role: 'user', text: 'Kan vi ta et møte?', timestamp: 3 },
+];
+
+const persona = (id: string): Persona => ({
+  id,
+  name: id,
+  title: '',
+  companySize: '',
+  industry: '',
+  motivation: '',
+  painPoints: '',
+  communicationStyle: '',
+  difficulty: 3,
+  avatarColor: 'bg-blue-500',
+});
+
+const evaluate = (data: Record<string, unknown>, committee: Persona[] = []) =>
+  validateEvaluation({ scores: { opening: 50, closing: 50 }, ...data }, SCORECARD, TRANSCRIPT, ['Mål', 'Neste steg'], committee);
+
+describe('validatePersonas', () => {
+  const raw = (fields: Record<string, unknown>) => ({ name: 'Kari Nordmann', gender: 'female', age: 40, ...fields });
+
+  it('rejects a response that is not a list or has no named personas', () => {
+    expect(() => validatePersonas({ personas: [] })).toThrow(AiError);
+    expect(() => validatePersonas([{ title: 'CFO' }, 'Kari'])).toThrow(AiError);
+  });
+
+  it('makes repeated ids unique', () => {
+    const personas = validatePersonas([raw({ id: 'p' }), raw({ id: 'p' }), raw({ id: 'p' })]);
+    expect(personas.map(p => p.id)).toEqual(['p', 'p-2', 'p-3']);
+  });
+
+  it('derives an id from the name when there is none', () => {
+    expect(validatePersonas([raw({})])[0].id).toBe('kari-nordmann');
+  });
+
+  it('clamps difficulty to 1-5 and defaults it to 3', () => {
+    const personas = validatePersonas([raw({ difficulty: 9 }), raw({ difficulty: -2 }), raw({ difficulty: 'vanskelig' }), raw({ difficulty: '4' })]);
+    expect(personas.map(p => p.difficulty)).toEqual([5, 1, 3, 4]);
+  });
+
+  it('replaces an avatar colour that is not a Tailwind background class', () => {
+    const personas = validatePersonas([raw({ avatarColor: '#ff0000' }), raw({ avatarColor: 'bg-rose-600' })]);
+    expect(personas[0].avatarColor).toMatch(/^bg-[a-z]+-500$/);
+    expect(personas[1].avatarColor).toBe('bg-rose-600');
+  });
+
+  it('drops an unknown gender and clamps the age', () => {
+    const [persona] = validatePersonas([raw({ gender: 'robot', age: 130 })]);
+    expect(persona.gender).toBeUndefined();
+    expect(persona.age).toBe(80);
+  });
+});
+
+describe('validateEvaluation', () => {
+  it('rejects a missing criterion score', () => {
+    expect(() => validateEvaluation({ scores: { opening: 50 } }, SCORECARD)).toThrow(AiError);
+    expect(() => validateEvaluation({ scores: { opening: 50, closing: 'bra' } }, SCORECARD)).toThrow(AiError);
+    expect(() => validateEvaluation([], SCORECARD)).toThrow(AiError);
+  });
+
+  it('clamps scores to 0-100 and computes the weighted total itself', () => {
+    const result = evaluate({ scores: { opening: 140, closing: -10 }, totalScore: 99 });
+    expect(result.scores).toEqual({ opening: 100, closing: 0 });
+    expect(result.totalScore).toBe(25);
+  });
+
+  it('ignores scores for criteria outside the scorecard', () => {
+    const result = evaluate({ scores: { opening: 80, closing: 40, pitch: 100 } });
+    expect(result.scores).toEqual({ opening: 80, closing: 40 });
+    expect(result.totalScore).toBe(50);
+  });
+
+  it('drops annotations that point past the transcript or at an unknown criterion', () => {
+    const result = evaluate({
+      annotations: [
+        { messageIndex: 3, category: 'closing', sentiment: 'positive', comment: 'Konkret neste steg' },
+        { messageIndex: 4, category: 'closing', sentiment: 'positive', comment: 'Finnes ikke' },
+        { messageIndex: -1, category: 'opening', sentiment: 'negative', comment: 'Finnes ikke' },
+        { messageIndex: 1.5, category: 'opening', sentiment: 'negative', comment: 'Ikke et heltall' },
+        { messageIndex: 1, category: 'pitch', sentiment: 'negative', comment: 'Ukjent kriterium' },
+        { messageIndex: 1, category: 'opening', sentiment: 'nøytral', comment: 'Kort åpning' },
+        { messageIndex: 2, category: 'opening', sentiment: 'positive', comment: '' },
+      ],
+    });
+    expect(result.annotations).toEqual([
+      { messageIndex: 1, category: 'opening', sentiment: 'negative', comment: 'Kort åpning' },
+      { messageIndex: 3, category: 'closing', sentiment: 'positive', comment: 'Konkret neste steg' },
+    ]);
+  });
+
+  it('keeps one improved reply per seller message', () => {
+    const result = evaluate({
+      improvedReplies: [
+        { messageIndex: 3, reply: 'Passer tirsdag?', rationale: 'Konkret' },
+        { messageIndex: 3, reply: 'Eller onsdag?', rationale: 'Duplikat' },
+        { messageIndex: 2, reply: 'Kundens replikk', rationale: 'Ikke selgeren' },
+        { messageIndex: 10, reply: 'Utenfor', rationale: 'Finnes ikke' },
+        { messageIndex: 1, reply: '', rationale: 'Tomt svar' },
+      ],
+    });
+    expect(result.improvedReplies).toEqual([{ messageIndex: 3, reply: 'Passer tirsdag?', rationale: 'Konkret' }]);
+  });
+
+  it('lists every success criterion and counts skipped ones as not met', () => {
+    const result = evaluate({ successCriteria: [{ index: 1, met: true, comment: 'Møte avtalt' }, { index: 7, met: true }] });
+    expect(result.successCriteria).toEqual([
+      { criterion: 'Mål', met: false, comment: '' },
+      { criterion: 'Neste steg', met: true, comment: 'Møte avtalt' },
+    ]);
+  });
+
+  it('scores only known committee members and clamps their scores', () => {
+    const committee = [persona('cfo'), persona('it'), persona('ceo')];
+    const result = evaluate({
+      stakeholders: {
+        cfo: { score: 120, comment: 'Fikk svar på pris' },
+        it: { score: 'høy' },
+        stranger: { score: 50, comment: 'Ikke i komiteen' },
+      },
+    }, committee);
+    expect(result.stakeholders).toEqual([{ personaId: 'cfo', score: 100, comment: 'Fikk svar på pris' }]);
+  });
+
+  it('leaves out stakeholder scores for a single buyer', () => {
+    expect(evaluate({ stakeholders: { solo: { score: 50 } } }, [persona('solo')]).stakeholders).toBeUndefined();
+  });
+});
@@ -1,9 +1,12 @@
 export enum AppState {
   SETUP = 'SETUP',
   PERSONA_SELECTION = 'PERSONA_SELECTION',
+  SCENARIO_SELECTION = 'SCENARIO_SELECTION',
   CALLING = 'CALLING',
   EVALUATION = 'EVALUATION',
-  HISTORY = 'HISTORY'
+  HISTORY = 'HISTORY',
+  PROGRESS = 'PROGRESS',
+  SCORECARDS = 'SCORECARDS'
 }
 
 export enum CallMode {
@@ -11,11 +14,39 @@ export enum CallMode {
   VOICE = 'VOICE'
 }
 
+// A page fetched from the product website, reduced to plain text.
+export interface SourcePage {
+  url: string;
+  title: string;
+  text: string;
+}
+
+// Product material uploaded or pasted by the rep, kept as extracted plain text.
+export interface SourceDocument {
+  id: string;
+  name: string;
+  kind: 'pdf' | 'docx' | 'markdown' | 'text' | 'pasted';
+  text: string;
+}
+
+export interface SellingPointCitation {
+  sellingPoint: string;
+  sourceUrl?: string;
+  sourceDocument?: string; // Name of the SourceDocument it came from
+}
+
 export interface ProductContext {
+  id?: string; // Set once the product is saved in the catalog
   url: string;
   companyName: string;
   description: string;
   sellingPoints: string[];
+  pricing?: string;
+  competitors?: string[];
+  typicalObjections?: string[];
+  caseStudies?: string[];
+  citations?: SellingPointCitation[]; // Which page or document each selling point came from
+  documents?: SourceDocument[];
 }
 
 export interface Persona {
@@ -29,24 +60,109 @@ export interface Persona {
   communicationStyle: string;
   difficulty: number; // 1-5
   avatarColor: string;
+  gender?: 'female' | 'male';
+  age?: number;
+  voice?: PersonaVoice; // Personas saved before voices existed get one from services/voices.ts
+}
+
+// How the persona sounds in live calls.
+export interface PersonaVoice {
+  voiceName: string; // Prebuilt voice of the live backend, e.g. 'Kore'
+  speakingRate: 'slow' | 'normal' | 'fast';
+  style: string; // Delivery hints, e.g. "tørr og avmålt"
+  dialect?: string; // e.g. 'Bergensk' or 'Trøndersk'
+}
+
+// The kind of conversation a session practises, e.g. a price negotiation. Texts
+// given to the buyer may use {persona}, {title} and {company} as placeholders.
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  situation: string; // The buyer's view of why the conversation is happening
+  opening: string; // How the buyer opens the conversation
+  buyerGoals: string[];
+  sellerGoal: string; // Shown to the rep before the session starts
+  successCriteria: string[]; // Checked one by one in the evaluation
+  evaluationFocus: string;
+  // Adjusts the buyer's starting mood; meetings start warmer and last longer than cold calls.
+  mood?: { interest?: number; trust?: number; minutes?: number };
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  speakerId?: string; // Persona id of the buyer speaking, in sessions with a buying committee
+}
+
+export interface ScorecardCriterion {
+  id: string;
+  name: string;
+  weight: number; // Relative weight in the total score
+  description: string; // Rubric: what good looks like, given to the evaluator
+  color: string; // Hex color used in charts
+}
+
+// A sales methodology the evaluation scores against, e.g. MEDDIC.
+export interface Scorecard {
+  id: string;
+  name: string;
+  description: string;
+  criteria: ScorecardCriterion[];
+  builtIn?: boolean; // Presets can be duplicated but not edited
 }
 
 export interface EvaluationMetrics {
-  openingScore: number;
-  discoveryScore: number;
-  pitchScore: number;
-  objectionHandlingScore: number;
-  closingScore: number;
-  totalScore: number;
+  scorecardId: string;
+  scores: Record<string, number>; // Criterion id -> 0-100
+  totalScore: number; // Weighted average of the criterion scores
   goodPoints: string[];
   improvementPoints: string[];
   nextSteps: string[];
+  annotations?: TranscriptAnnotation[];
+  improvedReplies?: ImprovedReply[];
+  successCriteria?: SuccessCriterionResult[];
+  stakeholders?: StakeholderScore[]; // One per committee member in multi-party sessions
+  // Present when the scores are the median of several evaluation runs.
+  consistency?: EvaluationConsistency;
+}
+
+// What the seller could have said instead of one of their weakest turns.
+export interface ImprovedReply {
+  messageIndex: number; // Index of the seller's message in the session transcript
+  reply: string;
+  rationale: string;
+}
+
+// How well the seller handled one member of a buying committee.
+export interface StakeholderScore {
+  personaId: string;
+  score: number; // 0-100
+  comment: string;
+}
+
+// Whether the seller reached one of the scenario's success criteria.
+export interface SuccessCriterionResult {
+  criterion: string;
+  met: boolean;
+  comment: string;
+}
+
+// How much repeated evaluations of the same transcript disagreed.
+export interface EvaluationConsistency {
+  samples: number; // Runs that succeeded
+  requested?: number; // Runs asked for, when some of them failed
+  spread: Record<string, number>; // Criterion id -> max minus min score across the runs
+  totalSpread: number;
+}
+
+// Feedback tied to one moment of the call.
+export interface TranscriptAnnotation {
+  messageIndex: number; // Index into the session transcript
+  category: string; // Id of the scorecard criterion the feedback belongs to
+  sentiment: 'positive' | 'negative';
+  comment: string;
 }
 
 export interface SessionHistory {
@@ -54,6 +170,81 @@ export interface SessionHistory {
   date: string;
   persona: Persona;
   product: ProductContext;
+  scenario?: Scenario; // Snapshot; sessions saved before scenarios existed were cold calls
+  committee?: Persona[]; // Every buyer in a multi-party session, `persona` first
   evaluation: EvaluationMetrics;
+  scorecard: Scorecard; // Snapshot, so later edits to the scorecard don't change old sessions
   transcript: ChatMessage[];
-}
\ No newline at end of file
+  hasRecording?: boolean; // The audio itself lives in IndexedDB, keyed by session id
+  speechMetrics?: SpeechMetrics;
+  fork?: SessionFork; // Set when the session continued an earlier one
+}
+
+// Where a session branched off an earlier one.
+export interface SessionFork {
+  parentId: string;
+  forkedAt: number; // Number of messages carried over from the parent's transcript
+}
+
+// Mixed audio of a voice call. Transcript timestamps minus startedAt give the
+// position of each line in the recording.
+export interface CallRecording {
+  blob: Blob;
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface VadSettings {
+  sensitivity: number; // Speech threshold as a multiple of the noise floor (lower = more sensitive)
+  hangoverMs: number;
+  preRollMs: number;
+  noiseFloor?: number; // Measured by the microphone calibration
+}
+
+export interface AppSettings {
+  vad: VadSettings;
+  coachEnabled: boolean; // Live coaching tips during calls; trainers turn it off for certification runs
+  showBuyerState: boolean; // Shows the buyer's mood during calls; the mood drives the persona either way
+  scorecardId: string; // Scorecard new sessions are evaluated with
+  evaluationSamples: number; // Evaluation runs per session; the median is reported when more than one
+}
+
+// Who was speaking when during a voice call, in ms from the start of the call.
+export interface SpeechSpan {
+  start: number;
+  end: number;
+}
+
+export interface SpeechTimeline {
+  startedAt: number; // Epoch ms the spans are relative to
+  seller: SpeechSpan[];
+  buyer: SpeechSpan[];
+  // When the voice call was live; the rest of the time the rep was in chat mode.
+  voice: SpeechSpan[];
+  durationMs: number;
+}
+
+// What a voice call leaves behind besides the transcript.
+export interface CallArtifacts {
+  recording?: CallRecording;
+  timeline?: SpeechTimeline;
+}
+
+export interface FillerWordCount {
+  word: string;
+  count: number;
+}
+
+// Delivery KPIs for the seller. Timing based values need a voice call and are
+// left out for text chats.
+export interface SpeechMetrics {
+  sellerTalkMs?: number;
+  buyerTalkMs?: number;
+  talkRatio?: number; // Seller share of total talk time, 0-1
+  wordsPerMinute?: number;
+  longestMonologueMs?: number;
+  interruptions?: number; // Times the seller started talking while the buyer spoke
+  questionCount: number;
+  fillerWords: FillerWordCount[];
+  fillerWordTotal: number;
+}
@@ -1,4 +1,16 @@
-import { Blob as GenAIBlob } from '@google/genai';
+import { AudioChunk } from '../services/providers/types';
+
+declare global {
+  interface Window {
+    // Older Safari only has the prefixed constructor.
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+export function createAudioContext(options?: AudioContextOptions): AudioContext {
+  const AudioContextClass = window.AudioContext ?? window.webkitAudioContext;
+  return new AudioContextClass(options);
+}
 
 export function base64ToUint8Array(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -40,16 +52,10 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPCM16Blob(data: Float32Array): GenAIBlob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Clamp values to [-1, 1] before converting
-    const s = Math.max(-1, Math.min(1, data[i]));
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
+// Wraps already encoded PCM16 (e.g. from the capture worklet) for sending.
+export function pcm16ToChunk(pcm: ArrayBuffer, sampleRate: number = 16000): AudioChunk {
   return {
-    data: arrayBufferToBase64(int16.buffer),
-    mimeType: 'audio/pcm;rate=16000',
+    data: arrayBufferToBase64(pcm),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,160 @@
+import { ChatMessage, Persona, ProductContext, Scenario } from '../types';
+import { ACKNOWLEDGE_WORDS, BUYING_SIGNALS, includesAny, MONOLOGUE_WORDS, NEXT_STEP_WORDS, OBJECTION_CUES } from './coach';
+import { countQuestions } from './speechAnalytics';
+
+// Rule-based model of the buyer's mood, replayed over the transcript after
+// every turn. It is fed back into the persona's instructions, so the buyer
+// warms up or loses patience in a way the seller can see and influence.
+
+export interface BuyerState {
+  interest: number; // 0-100
+  trust: number; // 0-100
+  irritation: number; // 0-100
+  remainingSeconds: number; // Time the buyer set aside for the call
+  objectionsRaised: number;
+  objectionsResolved: number;
+  hungUp: boolean;
+}
+
+export interface BuyerStateSnapshot extends BuyerState {
+  // Last message of the turn the snapshot was taken after; -1 for the starting state.
+  messageIndex: number;
+}
+
+// The buyer hangs up once irritation reaches this level.
+export const HANG_UP_IRRITATION = 85;
+
+const DISCOUNT_WORDS = ['rabatt', 'avslag', 'gratis', 'prosent billigere', 'spesialpris'];
+const MAX_COUNTED_QUESTIONS = 2;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+// A level 1 buyer has time and patience; a level 5 buyer is busy and sceptical.
+// The scenario shifts the starting point, e.g. a booked meeting starts warmer.
+export const initialBuyerState = (persona: Persona, scenario?: Scenario): BuyerState => {
+  const mood = scenario?.mood ?? {};
+  return {
+    interest: clamp(55 - persona.difficulty * 7 + (mood.interest ?? 0)),
+    trust: clamp(55 - persona.difficulty * 6 + (mood.trust ?? 0)),
+    irritation: persona.difficulty * 5,
+    remainingSeconds: (mood.minutes ?? 10) * 60 - persona.difficulty * 80,
+    objectionsRaised: 0,
+    objectionsResolved: 0,
+    hungUp: false,
+  };
+};
+
+interface IndexedTurn {
+  role: ChatMessage['role'];
+  text: string;
+  lastIndex: number;
+  timestamp: number;
+}
+
+// Like coach.toTurns, but remembers where each turn ends in the transcript.
+const toIndexedTurns = (transcript: ChatMessage[]): IndexedTurn[] =>
+  transcript.reduce<IndexedTurn[]>((turns, msg, idx) => {
+    const last = turns[turns.length - 1];
+    if (last && last.role === msg.role) {
+      last.text = `${last.text} ${msg.text}`;
+      last.lastIndex = idx;
+      last.timestamp = msg.timestamp;
+    } else {
+      turns.push({ role: msg.role, text: msg.text, lastIndex: idx, timestamp: msg.timestamp });
+    }
+    return turns;
+  }, []);
+
+// One snapshot per turn, starting with the buyer's state before the call.
+export const trackBuyerState = (
+  transcript: ChatMessage[],
+  persona: Persona,
+  product: ProductContext,
+  scenario?: Scenario
+): BuyerStateSnapshot[] => {
+  const initial = initialBuyerState(persona, scenario);
+  const snapshots: BuyerStateSnapshot[] = [{ ...initial, messageIndex: -1 }];
+  const objectionCues = [...OBJECTION_CUES, ...(product.competitors ?? []).map(c => c.toLowerCase())];
+  // Harder buyers react more strongly to mistakes.
+  const sensitivity = 0.6 + persona.difficulty * 0.2;
+  const startedAt = transcript[0]?.timestamp ?? 0;
+
+  let state = initial;
+  let openObjection = false;
+  for (const turn of toIndexedTurns(transcript)) {
+    if (state.hungUp) break;
+    let { interest, trust, irritation, objectionsRaised, objectionsResolved } = state;
+
+    if (turn.role === 'model') {
+      if (includesAny(turn.text, objectionCues)) {
+        objectionsRaised++;
+        openObjection = true;
+      }
+      if (includesAny(turn.text, BUYING_SIGNALS)) interest += 8;
+    } else {
+      const questions = Math.min(countQuestions([turn.text]), MAX_COUNTED_QUESTIONS);
+      const acknowledged = includesAny(turn.text, ACKNOWLEDGE_WORDS);
+      const words = turn.text.split(/\s+/).filter(Boolean).length;
+
+      interest += questions * 6;
+      irritation -= questions * 2;
+      if (acknowledged) trust += 4;
+      if (words >= MONOLOGUE_WORDS) {
+        irritation += 12 * sensitivity;
+        interest -= 5;
+      }
+      if (includesAny(turn.text, DISCOUNT_WORDS)) trust -= 8;
+      if (includesAny(turn.text, NEXT_STEP_WORDS)) {
+        // Asking for a meeting only works once the buyer sees the point of one.
+        if (interest >= 55) interest += 5;
+        else irritation += 8 * sensitivity;
+      }
+      if (openObjection) {
+        if (questions > 0 || acknowledged) {
+          objectionsResolved++;
+          trust += 6;
+          irritation -= 4;
+        } else {
+          trust -= 4;
+          irritation += 8 * sensitivity;
+        }
+        openObjection = false;
+      }
+    }
+
+    const remainingSeconds = initial.remainingSeconds - Math.round((turn.timestamp - startedAt) / 1000);
+    // Running over the buyer's time keeps costing patience.
+    if (turn.role === 'user' && remainingSeconds < 0) irritation += 5 * sensitivity;
+
+    state = {
+      interest: clamp(interest),
+      trust: clamp(trust),
+      irritation: clamp(irritation),
+      remainingSeconds,
+      objectionsRaised,
+      objectionsResolved,
+      hungUp: clamp(irritation) >= HANG_UP_IRRITATION,
+    };
+    snapshots.push({ ...state, messageIndex: turn.lastIndex });
+  }
+  return snapshots;
+};
+
+const level = (value: number) => (value >= 65 ? 'høy' : value >= 35 ? 'middels' : 'lav');
+
+// Instructions for the persona's next reply, sent alongside the seller's turn.
+export const describeBuyerState = (state: BuyerState): string => {
+  if (state.hungUp) {
+    return 'Intern tilstand (ikke les opp): Du er lei av samtalen. Si kort og høflig at du ikke har tid til mer, og avslutt samtalen.';
+  }
+  const hints = [
+    `interesse ${level(state.interest)}`,
+    `tillit ${level(state.trust)}`,
+    `irritasjon ${level(state.irritation)}`,
+  ];
+  if (state.remainingSeconds <= 0) hints.push('du har egentlig ikke mer tid og vil avrunde');
+  else if (state.remainingSeconds < 60) hints.push('du har snart ikke mer tid');
+  const open = state.objectionsRaised - state.objectionsResolved;
+  if (open > 0) hints.push(`${open} innvending${open === 1 ? '' : 'er'} er ikke besvart godt nok, og du tar ${open === 1 ? 'den' : 'dem'} gjerne opp igjen`);
+  return `Intern tilstand (ikke les opp): ${hints.join(', ')}. La dette prege tonen og hvor mye du åpner deg i neste svar.`;
+};
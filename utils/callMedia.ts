@@ -0,0 +1,37 @@
+import { CallArtifacts } from '../types';
+import { CallRecorder, createCallRecorder } from './recorder';
+import { createTalkTracker, TalkTracker } from './speechAnalytics';
+
+// The recording and talk timeline of a whole call. They belong to the call rather
+// than to the voice screen, so they carry on when the rep switches to chat and
+// back: the chat part is silence in the recording, and message offsets stay in sync.
+export interface CallMedia {
+  // Starts recording on the first voice connection; later connections continue the same recording.
+  resume: () => { recorder: CallRecorder; talk: TalkTracker };
+  // The voice screen closed mid-call: queued buyer audio will never play and the seller stopped talking.
+  pause: () => void;
+  finish: () => CallArtifacts | undefined;
+}
+
+export const createCallMedia = (): CallMedia => {
+  let recorder: CallRecorder | null = null;
+  let talk: TalkTracker | null = null;
+
+  return {
+    resume: () => {
+      recorder ??= createCallRecorder();
+      talk ??= createTalkTracker();
+      talk.resume();
+      return { recorder, talk };
+    },
+    pause: () => {
+      recorder?.cutOutput();
+      talk?.buyerInterrupted();
+      talk?.pause();
+    },
+    finish: () => {
+      if (!recorder || !talk) return undefined;
+      return { recording: recorder.finish() ?? undefined, timeline: talk.finish() };
+    },
+  };
+};
@@ -0,0 +1,148 @@
+// Microphone capture on the audio rendering thread. The worklet low-pass filters
+// and resamples the device rate down to 16 kHz, encodes PCM16 and posts ready-to-send chunks
+// together with their RMS level, so the main thread only forwards them.
+//
+// The processor is kept as a source string and loaded from a Blob URL, which
+// works the same with the Vite dev server, a production build and the
+// importmap-based AI Studio runtime.
+
+export const TARGET_SAMPLE_RATE = 16000;
+// 20 ms at 16 kHz: small enough for low latency, large enough to keep the
+// number of websocket messages reasonable.
+export const CHUNK_SAMPLES = 320;
+
+const PROCESSOR_NAME = 'pcm16-capture';
+
+const WORKLET_SOURCE = `
+// Low-pass biquad coefficients (RBJ audio EQ cookbook), normalised by a0.
+const lowPass = (cutoff, rate, q) => {
+  const w = 2 * Math.PI * cutoff / rate;
+  const alpha = Math.sin(w) / (2 * q);
+  const cos = Math.cos(w);
+  const a0 = 1 + alpha;
+  return {
+    b0: (1 - cos) / 2 / a0, b1: (1 - cos) / a0, b2: (1 - cos) / 2 / a0,
+    a1: -2 * cos / a0, a2: (1 - alpha) / a0,
+    x1: 0, x2: 0, y1: 0, y2: 0,
+  };
+};
+
+class Pcm16CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSamples } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.chunk = new Float32Array(chunkSamples);
+    this.filled = 0;
+    // Fractional read position carried across render quanta for resampling.
+    this.position = 0;
+    this.previous = 0;
+    // Two sections of a 4th order Butterworth low-pass just below the new Nyquist
+    // frequency, so content above 8 kHz doesn't alias into the speech band.
+    this.filters = this.ratio > 1
+      ? [0.5412, 1.3066].map(q => lowPass(targetRate * 0.45, sampleRate, q))
+      : [];
+    this.filtered = new Float32Array(128);
+  }
+
+  filter(input) {
+    if (this.filters.length === 0) return input;
+    if (this.filtered.length !== input.length) this.filtered = new Float32Array(input.length);
+    this.filtered.set(input);
+    for (const f of this.filters) {
+      const data = this.filtered;
+      for (let i = 0; i < data.length; i++) {
+        const x = data[i];
+        const y = f.b0 * x + f.b1 * f.x1 + f.b2 * f.x2 - f.a1 * f.y1 - f.a2 * f.y2;
+        f.x2 = f.x1; f.x1 = x;
+        f.y2 = f.y1; f.y1 = y;
+        data[i] = y;
+      }
+    }
+    return this.filtered;
+  }
+
+  flush() {
+    let sum = 0;
+    const pcm = new Int16Array(this.chunk.length);
+    for (let i = 0; i < this.chunk.length; i++) {
+      const s = Math.max(-1, Math.min(1, this.chunk[i]));
+      sum += s * s;
+      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+    this.port.postMessage({ pcm: pcm.buffer, rms: Math.sqrt(sum / this.chunk.length) }, [pcm.buffer]);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const raw = inputs[0] && inputs[0][0];
+    if (!raw) return true;
+    const input = this.filter(raw);
+
+    // Linear interpolation between samples; index -1 is the last sample of the previous block.
+    while (this.position < input.length) {
+      const i = Math.floor(this.position);
+      const frac = this.position - i;
+      const a = i === 0 ? this.previous : input[i - 1];
+      const b = input[i];
+      this.chunk[this.filled++] = a + (b - a) * frac;
+      if (this.filled === this.chunk.length) this.flush();
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.previous = input[input.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', Pcm16CaptureProcessor);
+`;
+
+export interface CaptureChunk {
+  pcm: ArrayBuffer; // Int16 mono samples at TARGET_SAMPLE_RATE
+  rms: number;
+}
+
+export interface CapturePipeline {
+  stop: () => void;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const ensureWorkletLoaded = async (ctx: AudioContext) => {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const startCapture = async (
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (chunk: CaptureChunk) => void
+): Promise<CapturePipeline> => {
+  await ensureWorkletLoaded(ctx);
+
+  const source = ctx.createMediaStreamSource(stream);
+  // No outputs: the node is a sink, so it is processed without being routed to the speakers.
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    processorOptions: { targetRate: TARGET_SAMPLE_RATE, chunkSamples: CHUNK_SAMPLES },
+  });
+  node.port.onmessage = (e: MessageEvent<CaptureChunk>) => onChunk(e.data);
+  source.connect(node);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { ChatMessage, ProductContext } from '../types';
+import { countQuestions } from './speechAnalytics';
+
+// Rule-based coaching on the transcript as it grows. Runs on every update
+// during a call, so it only uses cheap text heuristics and no AI requests.
+
+export type CoachTipKind = 'objection' | 'close' | 'monologue' | 'discovery';
+
+export interface CoachTip {
+  kind: CoachTipKind;
+  title: string;
+  message: string;
+}
+
+export interface Turn {
+  role: ChatMessage['role'];
+  text: string;
+}
+
+// The cue lists and helpers below are shared with the buyer model in buyerState.ts.
+
+export const OBJECTION_CUES = [
+  'for dyrt', 'dyrt', 'kostbart', 'budsjett', 'har ikke råd', 'har allerede', 'bruker allerede',
+  'fornøyd med', 'ikke interessert', 'ikke tid', 'usikker', 'skeptisk', 'ikke behov', 'trenger ikke',
+  'må tenke', 'ikke nå', 'neste år', 'bindingstid', 'risiko',
+];
+
+export const BUYING_SIGNALS = [
+  'høres bra ut', 'høres interessant ut', 'hva koster', 'hvordan kommer vi i gang',
+  'når kan', 'kan dere sende', 'send meg', 'demo', 'tilbud', 'prøveperiode', 'gratis prøve', 'neste steg',
+];
+
+export const NEXT_STEP_WORDS = ['møte', 'demo', 'avtale', 'tilbud', 'neste steg', 'prøveperiode', 'kalender', 'oppfølging'];
+
+// Acknowledging an objection before answering it.
+export const ACKNOWLEDGE_WORDS = ['forstår', 'skjønner', 'godt poeng', 'rimelig', 'hører hva du sier', 'helt naturlig'];
+
+// About 40 seconds of talking at a normal pace.
+export const MONOLOGUE_WORDS = 90;
+const MIN_SELLER_TURNS_FOR_DISCOVERY = 3;
+const MIN_DISCOVERY_QUESTIONS = 2;
+
+export const includesAny = (text: string, phrases: string[]) => {
+  const lower = text.toLowerCase();
+  return phrases.some(p => lower.includes(p));
+};
+
+const excerpt = (text: string, max = 60) => (text.length > max ? `${text.slice(0, max).trim()}…` : text);
+
+// Chat messages from the same side in a row count as one turn.
+export const toTurns = (transcript: ChatMessage[]): Turn[] =>
+  transcript.reduce<Turn[]>((turns, msg) => {
+    const last = turns[turns.length - 1];
+    if (last && last.role === msg.role) {
+      last.text = `${last.text} ${msg.text}`;
+    } else {
+      turns.push({ role: msg.role, text: msg.text });
+    }
+    return turns;
+  }, []);
+
+const checkObjection = (turns: Turn[], product: ProductContext): CoachTip | null => {
+  const cues = [...OBJECTION_CUES, ...(product.competitors ?? []).map(c => c.toLowerCase())];
+  // Only objections from the last few turns still need attention.
+  const recent = turns.slice(-3);
+  const index = recent.map(t => t.role === 'model' && includesAny(t.text, cues)).lastIndexOf(true);
+  if (index === -1) return null;
+
+  const objection = recent[index];
+  const reply = recent[index + 1];
+  if (!reply) {
+    return {
+      kind: 'objection',
+      title: 'Innvending',
+      message: `«${excerpt(objection.text)}» – anerkjenn den og spør hva som ligger bak før du svarer.`,
+    };
+  }
+  if (countQuestions([reply.text]) === 0 && !includesAny(reply.text, ACKNOWLEDGE_WORDS)) {
+    return {
+      kind: 'objection',
+      title: 'Innvendingen ble ikke utforsket',
+      message: 'Du svarte uten å anerkjenne eller spørre. Gå tilbake til den: «Hva er det som gjør deg usikker?»',
+    };
+  }
+  return null;
+};
+
+const checkClose = (turns: Turn[]): CoachTip | null => {
+  const recent = turns.slice(-2);
+  const signalIndex = recent.map(t => t.role === 'model' && includesAny(t.text, BUYING_SIGNALS)).lastIndexOf(true);
+  if (signalIndex === -1) return null;
+  const reply = recent[signalIndex + 1];
+  if (reply && includesAny(reply.text, NEXT_STEP_WORDS)) return null;
+  return {
+    kind: 'close',
+    title: 'Kjøpssignal',
+    message: 'Kunden virker interessert. Foreslå et konkret neste steg, f.eks. et møte eller en demo.',
+  };
+};
+
+const checkMonologue = (turns: Turn[]): CoachTip | null => {
+  const last = turns[turns.length - 1];
+  if (!last || last.role !== 'user') return null;
+  const words = last.text.split(/\s+/).filter(Boolean).length;
+  if (words < MONOLOGUE_WORDS) return null;
+  return {
+    kind: 'monologue',
+    title: 'Lang monolog',
+    message: 'Du har snakket lenge uten å slippe kunden til. Avslutt med et spørsmål.',
+  };
+};
+
+const checkDiscovery = (turns: Turn[]): CoachTip | null => {
+  const sellerTexts = turns.filter(t => t.role === 'user').map(t => t.text);
+  if (sellerTexts.length < MIN_SELLER_TURNS_FOR_DISCOVERY) return null;
+  if (countQuestions(sellerTexts) >= MIN_DISCOVERY_QUESTIONS) return null;
+  return {
+    kind: 'discovery',
+    title: 'Still flere spørsmål',
+    message: 'Du har stilt få spørsmål. Kartlegg kundens behov og utfordringer før du pitcher mer.',
+  };
+};
+
+// Most urgent first: an open objection or buying signal needs action in the next reply.
+export const getCoachTips = (transcript: ChatMessage[], product: ProductContext): CoachTip[] => {
+  const turns = toTurns(transcript);
+  return [
+    checkObjection(turns, product),
+    checkClose(turns),
+    checkMonologue(turns),
+    checkDiscovery(turns),
+  ].filter((tip): tip is CoachTip => tip !== null);
+};
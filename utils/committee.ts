@@ -0,0 +1,82 @@
+import { ChatMessage, Persona } from '../types';
+
+// In sessions with a buying committee one model plays every buyer and starts
+// each line with the speaker's name ("Kari: ..."). These helpers turn its
+// replies into one message per speaker, and back.
+
+export const MAX_COMMITTEE_SIZE = 3;
+
+export const firstName = (persona: Persona) => persona.name.split(/\s+/)[0];
+
+export const speakerOf = (msg: ChatMessage, committee: Persona[]): Persona | undefined =>
+  committee.find(p => p.id === msg.speakerId);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A name at the start of the reply or of a sentence, followed by a colon. Voice
+// transcriptions sometimes render the colon as "her" ("Kari her, ..."), so that counts too.
+const speakerPattern = (committee: Persona[]) => {
+  const names = committee
+    .flatMap(p => [p.name, firstName(p)])
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return new RegExp(`(^|[.!?…]\\s+|\\n\\s*)(${names.join('|')})(?:\\s*:|\\s+her\\b[,.:]?)\\s*`, 'gi');
+};
+
+const findByName = (name: string, committee: Persona[]) => {
+  const lower = name.toLowerCase();
+  return committee.find(p => p.name.toLowerCase() === lower || firstName(p).toLowerCase() === lower);
+};
+
+const splitBySpeaker = (text: string, committee: Persona[], fallbackId: string) => {
+  const parts: { speakerId: string; text: string }[] = [];
+  const push = (speakerId: string, part: string) => {
+    const trimmed = part.trim();
+    if (!trimmed) return;
+    const last = parts[parts.length - 1];
+    if (last && last.speakerId === speakerId) last.text = `${last.text} ${trimmed}`;
+    else parts.push({ speakerId, text: trimmed });
+  };
+
+  const pattern = speakerPattern(committee);
+  let speakerId = fallbackId;
+  let consumed = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    push(speakerId, text.slice(consumed, match.index + match[1].length));
+    speakerId = findByName(match[2], committee)?.id ?? speakerId;
+    consumed = match.index + match[0].length;
+  }
+  push(speakerId, text.slice(consumed));
+  return parts;
+};
+
+// Splits untagged buyer messages by the names in them. Text before the first name
+// belongs to whoever spoke last, or to the lead persona at the start.
+export const attributeSpeakers = (transcript: ChatMessage[], committee: Persona[]): ChatMessage[] => {
+  let lastSpeakerId = committee[0]?.id ?? '';
+  return transcript.flatMap(msg => {
+    if (msg.role !== 'model') return [msg];
+    if (msg.speakerId) {
+      lastSpeakerId = msg.speakerId;
+      return [msg];
+    }
+    const parts = splitBySpeaker(msg.text, committee, lastSpeakerId);
+    if (parts.length > 0) lastSpeakerId = parts[parts.length - 1].speakerId;
+    return parts.map(part => ({ ...msg, text: part.text, speakerId: part.speakerId }));
+  });
+};
+
+// Puts the names back in front of the lines, for seeding a chat with an earlier
+// transcript. Consecutive buyer lines become one turn again, as the model wrote them.
+export const withSpeakerTags = (transcript: ChatMessage[], committee: Persona[]): ChatMessage[] =>
+  transcript.reduce<ChatMessage[]>((turns, msg) => {
+    const speaker = speakerOf(msg, committee);
+    const text = speaker ? `${firstName(speaker)}: ${msg.text}` : msg.text;
+    const last = turns[turns.length - 1];
+    if (last && last.role === 'model' && msg.role === 'model') {
+      turns[turns.length - 1] = { ...last, text: `${last.text}\n${text}` };
+    } else {
+      turns.push({ role: msg.role, text, timestamp: msg.timestamp });
+    }
+    return turns;
+  }, []);
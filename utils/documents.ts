@@ -0,0 +1,95 @@
+import { SourceDocument } from '../types';
+import { createId } from './storage';
+
+// Documents are parsed locally in the browser; nothing is uploaded anywhere
+// except the extracted text that ends up in the prompts.
+
+// Keeps the document store (services/documentStore.ts) small enough for localStorage.
+export const MAX_DOCUMENT_CHARS = 20000;
+
+export const ACCEPTED_DOCUMENT_TYPES = '.pdf,.docx,.md,.markdown,.txt,text/plain,text/markdown,application/pdf';
+
+declare global {
+  // pdf.js looks for its worker module here and then parses on the main thread.
+  var pdfjsWorker: unknown;
+}
+
+const normalizeWhitespace = (text: string) =>
+  text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+
+const readPdf = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  // Run the parser on the main thread instead of loading a separate worker
+  // script; product sheets are small enough that this doesn't matter.
+  if (!globalThis.pdfjsWorker) {
+    globalThis.pdfjsWorker = await import('pdfjs-dist/build/pdf.worker.mjs');
+  }
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const content = await (await pdf.getPage(i)).getTextContent();
+    pages.push(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+  }
+  return pages.join('\n\n');
+};
+
+const readDocx = async (file: File): Promise<string> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) throw new Error(`${file.name} mangler dokumentinnhold`);
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  // One line per paragraph; runs of text inside a paragraph are <w:t> elements.
+  return Array.from(doc.getElementsByTagName('w:p'))
+    .map(p => Array.from(p.getElementsByTagName('w:t')).map(t => t.textContent ?? '').join(''))
+    .join('\n');
+};
+
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '- ')
+    .replace(/[*_`]{1,3}/g, '');
+
+const detectKind = (file: File): SourceDocument['kind'] | null => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.pdf') || file.type === 'application/pdf') return 'pdf';
+  if (name.endsWith('.docx')) return 'docx';
+  if (name.endsWith('.md') || name.endsWith('.markdown') || file.type === 'text/markdown') return 'markdown';
+  if (name.endsWith('.txt') || file.type === 'text/plain') return 'text';
+  return null;
+};
+
+export const readDocumentFile = async (file: File): Promise<SourceDocument> => {
+  const kind = detectKind(file);
+  if (!kind) throw new Error(`${file.name}: filtypen støttes ikke`);
+
+  let text: string;
+  switch (kind) {
+    case 'pdf':
+      text = await readPdf(file);
+      break;
+    case 'docx':
+      text = await readDocx(file);
+      break;
+    case 'markdown':
+      text = stripMarkdown(await file.text());
+      break;
+    default:
+      text = await file.text();
+  }
+
+  text = normalizeWhitespace(text);
+  if (!text) throw new Error(`${file.name}: fant ingen tekst (skannede PDF-er støttes ikke)`);
+  return { id: createId('doc'), name: file.name, kind, text: text.slice(0, MAX_DOCUMENT_CHARS) };
+};
+
+export const createPastedDocument = (text: string, index: number): SourceDocument => ({
+  id: createId('doc'),
+  name: `Innlimt tekst ${index}`,
+  kind: 'pasted',
+  text: normalizeWhitespace(text).slice(0, MAX_DOCUMENT_CHARS),
+});
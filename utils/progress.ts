@@ -0,0 +1,79 @@
+import { Scorecard, SessionHistory } from '../types';
+
+export interface ProgressPoint {
+  sessionId: string;
+  label: string;
+  date: string;
+  totalScore: number;
+  scores: Record<string, number>;
+  rollingAverage: number;
+  // Rolling average per criterion id, over the same window as `rollingAverage`.
+  // Criteria without scores in the window (added to the scorecard later) are left out.
+  rollingScores: Record<string, number>;
+}
+
+export interface ProgressSummary {
+  points: ProgressPoint[];
+  personalBest: SessionHistory | null;
+  averageTotal: number;
+  // Change in rolling average between the first and latest session.
+  trend: number;
+  // The same change per criterion id.
+  categoryTrends: Record<string, number>;
+  weakestCategory: { id: string; name: string; average: number } | null;
+}
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const criterionScores = (sessions: SessionHistory[], id: string) =>
+  sessions.map(s => s.evaluation.scores[id]).filter((v): v is number => typeof v === 'number');
+
+// Criterion scores are only comparable within one scorecard, so callers pass
+// the sessions evaluated with `scorecard`.
+export const summarizeProgress = (sessions: SessionHistory[], scorecard: Scorecard, window: number = 3): ProgressSummary => {
+  const ordered = [...sessions].sort((a, b) => a.date.localeCompare(b.date));
+
+  const points = ordered.map((session, idx) => {
+    const recent = ordered.slice(Math.max(0, idx - window + 1), idx + 1);
+    const { evaluation } = session;
+    return {
+      sessionId: session.id,
+      label: new Date(session.date).toLocaleDateString('nb-NO', { day: 'numeric', month: 'short' }),
+      date: session.date,
+      totalScore: evaluation.totalScore,
+      scores: evaluation.scores,
+      rollingAverage: Math.round(average(recent.map(s => s.evaluation.totalScore))),
+      rollingScores: Object.fromEntries(scorecard.criteria
+        .map(c => [c.id, criterionScores(recent, c.id)] as const)
+        .filter(([, values]) => values.length > 0)
+        .map(([id, values]) => [id, Math.round(average(values))])),
+    };
+  });
+
+  const personalBest = ordered.reduce<SessionHistory | null>(
+    (best, s) => (!best || s.evaluation.totalScore > best.evaluation.totalScore ? s : best),
+    null
+  );
+
+  // Criteria no session has a score for yet are left out, as in `rollingScores`.
+  const weakestCategory = scorecard.criteria
+    .map(c => ({ id: c.id, name: c.name, values: criterionScores(ordered, c.id) }))
+    .filter(c => c.values.length > 0)
+    .map(({ values, ...c }) => ({ ...c, average: Math.round(average(values)) }))
+    .reduce<ProgressSummary['weakestCategory']>((weakest, c) => (!weakest || c.average < weakest.average ? c : weakest), null);
+
+  return {
+    points,
+    personalBest,
+    averageTotal: Math.round(average(ordered.map(s => s.evaluation.totalScore))),
+    trend: points.length < 2 ? 0 : points[points.length - 1].rollingAverage - points[0].rollingAverage,
+    categoryTrends: Object.fromEntries(scorecard.criteria.map(c => {
+      // A criterion added later is measured from its first scored session.
+      const scored = points.filter(p => p.rollingScores[c.id] !== undefined);
+      const change = scored.length < 2 ? 0 : scored[scored.length - 1].rollingScores[c.id] - scored[0].rollingScores[c.id];
+      return [c.id, change];
+    })),
+    weakestCategory,
+  };
+};
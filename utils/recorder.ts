@@ -0,0 +1,124 @@
+import { CallRecording } from '../types';
+
+// Records both sides of a voice call and mixes them into a mono WAV file.
+// Audio is placed on a timeline relative to when the recorder was created, so
+// pauses, overlaps and interruptions sound the way they did in the call.
+
+export const RECORDING_SAMPLE_RATE = 16000;
+
+// Mic chunks arriving within this much of where the previous one ended are
+// treated as contiguous, absorbing message jitter from the capture worklet.
+const INPUT_JITTER_SAMPLES = RECORDING_SAMPLE_RATE / 10;
+
+interface Segment {
+  start: number; // in samples from the start of the recording
+  samples: Float32Array;
+}
+
+export interface CallRecorder {
+  // PCM16 mono at RECORDING_SAMPLE_RATE from the capture worklet, just received.
+  addInput: (pcm: ArrayBuffer) => void;
+  // Buyer audio scheduled to start playing delayMs from now.
+  addOutput: (buffer: AudioBuffer, delayMs?: number) => void;
+  // The buyer was interrupted: drop buyer audio that would have played after now.
+  cutOutput: () => void;
+  finish: () => CallRecording | null;
+}
+
+const resample = (input: Float32Array, fromRate: number): Float32Array => {
+  if (fromRate === RECORDING_SAMPLE_RATE) return input.slice();
+  const ratio = fromRate / RECORDING_SAMPLE_RATE;
+  const output = new Float32Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const pos = i * ratio;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, input.length - 1);
+    output[i] = input[index] + (input[next] - input[index]) * (pos - index);
+  }
+  return output;
+};
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export const createCallRecorder = (): CallRecorder => {
+  const startedAt = Date.now();
+  const inputs: Segment[] = [];
+  const outputs: Segment[] = [];
+  let inputEnd = 0;
+
+  const nowInSamples = () => Math.round((Date.now() - startedAt) / 1000 * RECORDING_SAMPLE_RATE);
+
+  return {
+    addInput: (pcm) => {
+      const int16 = new Int16Array(pcm);
+      const samples = new Float32Array(int16.length);
+      for (let i = 0; i < int16.length; i++) samples[i] = int16[i] / 32768;
+
+      // The chunk has just been completed, so it started one chunk length ago.
+      const fromClock = Math.max(0, nowInSamples() - samples.length);
+      const start = Math.abs(fromClock - inputEnd) > INPUT_JITTER_SAMPLES ? fromClock : inputEnd;
+      inputs.push({ start, samples });
+      inputEnd = start + samples.length;
+    },
+
+    addOutput: (buffer, delayMs = 0) => {
+      const start = nowInSamples() + Math.round(delayMs / 1000 * RECORDING_SAMPLE_RATE);
+      outputs.push({ start, samples: resample(buffer.getChannelData(0), buffer.sampleRate) });
+    },
+
+    cutOutput: () => {
+      const cut = nowInSamples();
+      for (let i = outputs.length - 1; i >= 0; i--) {
+        const segment = outputs[i];
+        if (segment.start >= cut) {
+          outputs.splice(i, 1);
+        } else if (segment.start + segment.samples.length > cut) {
+          segment.samples = segment.samples.subarray(0, cut - segment.start);
+        }
+      }
+    },
+
+    finish: () => {
+      const segments = [...inputs, ...outputs];
+      if (segments.length === 0) return null;
+
+      const length = segments.reduce((max, s) => Math.max(max, s.start + s.samples.length), 0);
+      const mix = new Float32Array(length);
+      segments.forEach(({ start, samples }) => {
+        for (let i = 0; i < samples.length; i++) mix[start + i] += samples[i];
+      });
+
+      return {
+        blob: encodeWav(mix, RECORDING_SAMPLE_RATE),
+        startedAt,
+        durationMs: Math.round(length / RECORDING_SAMPLE_RATE * 1000),
+      };
+    },
+  };
+};
@@ -0,0 +1,24 @@
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs `fn` up to `retries + 1` times with exponential backoff and jitter.
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  { retries = 2, baseDelayMs = 500, maxDelayMs = 8000, shouldRetry = () => true }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(delay / 2 + Math.random() * delay / 2);
+    }
+  }
+}
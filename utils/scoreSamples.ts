@@ -0,0 +1,56 @@
+import { EvaluationConsistency, EvaluationMetrics, Scorecard } from '../types';
+import { computeTotalScore } from '../services/scorecards';
+
+export type ConsistencyLevel = 'high' | 'medium' | 'low';
+
+// Largest criterion spread (in points) still counted as high or medium agreement.
+const HIGH_AGREEMENT_SPREAD = 10;
+const MEDIUM_AGREEMENT_SPREAD = 20;
+
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+const range = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+// Merges repeated evaluations of one transcript: each criterion gets the median
+// score, and the written feedback comes from the run whose total is closest to
+// the median total, so text and numbers tell the same story. When some of the
+// `requested` runs failed, that is recorded, even if only one run is left.
+export const combineEvaluations = (
+  samples: EvaluationMetrics[],
+  scorecard: Scorecard,
+  requested: number = samples.length
+): EvaluationMetrics => {
+  if (requested === 1) return samples[0];
+
+  const scores: Record<string, number> = {};
+  const spread: Record<string, number> = {};
+  for (const { id } of scorecard.criteria) {
+    const values = samples.map(s => s.scores[id]);
+    scores[id] = median(values);
+    spread[id] = range(values);
+  }
+  const totalScore = computeTotalScore(scores, scorecard);
+  const representative = samples.reduce((best, s) =>
+    Math.abs(s.totalScore - totalScore) < Math.abs(best.totalScore - totalScore) ? s : best
+  );
+  const consistency: EvaluationConsistency = {
+    samples: samples.length,
+    spread,
+    totalSpread: range(samples.map(s => s.totalScore)),
+    ...(requested > samples.length ? { requested } : {}),
+  };
+
+  return { ...representative, scores, totalScore, consistency };
+};
+
+export const consistencyLevel = (consistency: EvaluationConsistency): ConsistencyLevel => {
+  const worst = Math.max(0, ...Object.values(consistency.spread));
+  if (worst <= HIGH_AGREEMENT_SPREAD) return 'high';
+  if (worst <= MEDIUM_AGREEMENT_SPREAD) return 'medium';
+  return 'low';
+};
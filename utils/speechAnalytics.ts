@@ -0,0 +1,174 @@
+import { ChatMessage, FillerWordCount, SpeechMetrics, SpeechSpan, SpeechTimeline } from '../types';
+
+// Delivery metrics for a practice call: how much the seller talked, how fast,
+// how long without letting the buyer in, filler words, questions and how often
+// they talked over the buyer. Text based metrics work for chat sessions too;
+// timing needs the speech timeline collected during a voice call.
+
+// Norwegian filler words and phrases coaches listen for. Matched on whole words.
+const FILLER_WORDS = ['eh', 'ehm', 'øh', 'øhm', 'hm', 'mm', 'liksom', 'på en måte', 'ikke sant', 'altså', 'typ'];
+
+// Sentences starting with these count as questions even when the transcription drops the '?'.
+const QUESTION_STARTERS = [
+  'hva', 'hvordan', 'hvorfor', 'hvem', 'hvilke', 'hvilken', 'hvilket', 'hvor', 'når',
+  'kan du', 'kan dere', 'har du', 'har dere', 'er det', 'er du', 'er dere', 'vil du', 'vil dere', 'skal vi', 'bruker dere',
+];
+
+// Seller speech separated by a shorter pause than this, with no buyer speech in between, is one monologue.
+const MONOLOGUE_GAP_MS = 2000;
+
+export interface TalkTracker {
+  sellerStarted: () => void;
+  // trailingMs is silence already counted as speech, e.g. the VAD hangover.
+  sellerStopped: (trailingMs?: number) => void;
+  // Buyer audio scheduled to start playing delayMs from now.
+  addBuyerAudio: (durationMs: number, delayMs?: number) => void;
+  // The buyer was cut off: audio that would have played after now never did.
+  buyerInterrupted: () => void;
+  // The voice call (re)connected, or was left for chat mode.
+  resume: () => void;
+  pause: () => void;
+  finish: () => SpeechTimeline;
+}
+
+export const createTalkTracker = (): TalkTracker => {
+  const startedAt = Date.now();
+  const seller: SpeechSpan[] = [];
+  const buyer: SpeechSpan[] = [];
+  const voice: SpeechSpan[] = [];
+  let sellerStart: number | null = null;
+  // Trackers are created when the voice call connects, so the first live period starts right away.
+  let voiceStart: number | null = 0;
+
+  const now = () => Date.now() - startedAt;
+
+  const sellerStopped = (trailingMs = 0) => {
+    if (sellerStart === null) return;
+    seller.push({ start: sellerStart, end: Math.max(sellerStart, now() - trailingMs) });
+    sellerStart = null;
+  };
+
+  const pause = () => {
+    sellerStopped();
+    if (voiceStart === null) return;
+    voice.push({ start: voiceStart, end: now() });
+    voiceStart = null;
+  };
+
+  return {
+    sellerStarted: () => {
+      if (sellerStart === null) sellerStart = now();
+    },
+    sellerStopped,
+    addBuyerAudio: (durationMs, delayMs = 0) => {
+      const start = now() + delayMs;
+      const last = buyer[buyer.length - 1];
+      // Audio arrives in small back-to-back chunks; keep them as one span.
+      if (last && start - last.end < 50) {
+        last.end = Math.max(last.end, start + durationMs);
+      } else {
+        buyer.push({ start, end: start + durationMs });
+      }
+    },
+    buyerInterrupted: () => {
+      const cut = now();
+      for (let i = buyer.length - 1; i >= 0; i--) {
+        if (buyer[i].start >= cut) buyer.splice(i, 1);
+        else if (buyer[i].end > cut) buyer[i].end = cut;
+      }
+    },
+    resume: () => {
+      if (voiceStart === null) voiceStart = now();
+    },
+    pause,
+    finish: () => {
+      pause();
+      return { startedAt, seller: [...seller], buyer: [...buyer], voice: [...voice], durationMs: now() };
+    },
+  };
+};
+
+const normalize = (text: string) =>
+  ` ${text.toLowerCase().replace(/[^a-z0-9æøåäöü\s]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+const countWords = (text: string) => normalize(text).trim().split(' ').filter(Boolean).length;
+
+const countFillerWords = (texts: string[]): FillerWordCount[] => {
+  const normalized = texts.map(normalize);
+  return FILLER_WORDS
+    .map(word => ({
+      word,
+      count: normalized.reduce((sum, text) => sum + (text.split(` ${word} `).length - 1), 0),
+    }))
+    .filter(f => f.count > 0)
+    .sort((a, b) => b.count - a.count);
+};
+
+export const countQuestions = (texts: string[]) =>
+  texts.reduce((sum, text) => {
+    const sentences = text.match(/[^.!?]+[.!?]*/g) ?? [];
+    return sum + sentences.filter(sentence => {
+      const trimmed = sentence.trim();
+      if (!trimmed) return false;
+      if (trimmed.endsWith('?')) return true;
+      const start = normalize(trimmed);
+      return QUESTION_STARTERS.some(q => start.startsWith(` ${q} `));
+    }).length;
+  }, 0);
+
+const totalMs = (spans: SpeechSpan[]) => spans.reduce((sum, s) => sum + (s.end - s.start), 0);
+
+const longestMonologue = (timeline: SpeechTimeline) => {
+  let longest = 0;
+  let runStart: number | null = null;
+  let runEnd = 0;
+  timeline.seller.forEach(span => {
+    const buyerSpokeInBetween = timeline.buyer.some(b => b.start < span.start && b.end > runEnd);
+    if (runStart === null || span.start - runEnd > MONOLOGUE_GAP_MS || buyerSpokeInBetween) {
+      runStart = span.start;
+    }
+    runEnd = span.end;
+    longest = Math.max(longest, runEnd - runStart);
+  });
+  return longest;
+};
+
+// A seller span starting while buyer audio was playing means the seller talked over the buyer.
+const countInterruptions = (timeline: SpeechTimeline) =>
+  timeline.seller.filter(s => timeline.buyer.some(b => s.start > b.start && s.start < b.end)).length;
+
+// Seller messages spoken while the voice call was live. Chat messages, and messages
+// carried over from a fork, have no talk time to measure their pace against.
+const spokenTexts = (transcript: ChatMessage[], timeline: SpeechTimeline) =>
+  transcript
+    .filter(m => m.role === 'user')
+    .filter(m => {
+      const at = m.timestamp - timeline.startedAt;
+      return timeline.voice.some(v => at >= v.start && at <= v.end);
+    })
+    .map(m => m.text);
+
+export const analyzeSpeech = (transcript: ChatMessage[], timeline?: SpeechTimeline): SpeechMetrics => {
+  const sellerTexts = transcript.filter(m => m.role === 'user').map(m => m.text);
+  const fillerWords = countFillerWords(sellerTexts);
+  const metrics: SpeechMetrics = {
+    questionCount: countQuestions(sellerTexts),
+    fillerWords,
+    fillerWordTotal: fillerWords.reduce((sum, f) => sum + f.count, 0),
+  };
+  if (!timeline) return metrics;
+
+  const sellerTalkMs = totalMs(timeline.seller);
+  const buyerTalkMs = totalMs(timeline.buyer);
+  const sellerWords = spokenTexts(transcript, timeline).reduce((sum, text) => sum + countWords(text), 0);
+
+  return {
+    ...metrics,
+    sellerTalkMs,
+    buyerTalkMs,
+    talkRatio: sellerTalkMs + buyerTalkMs > 0 ? sellerTalkMs / (sellerTalkMs + buyerTalkMs) : undefined,
+    wordsPerMinute: sellerTalkMs > 0 ? Math.round(sellerWords / (sellerTalkMs / 60000)) : undefined,
+    longestMonologueMs: longestMonologue(timeline),
+    interruptions: countInterruptions(timeline),
+  };
+};
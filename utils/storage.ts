@@ -0,0 +1,44 @@
+// Small helpers around localStorage for the lists and settings the app keeps
+// between visits (session history, persona library, ...). Failures are logged, never thrown,
+// so a full or disabled storage never breaks a training session.
+
+export const readList = <T>(key: string): T[] => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as T[] : [];
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    return [];
+  }
+};
+
+export const writeList = <T>(key: string, items: T[]) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch (error) {
+    console.error(`Error saving ${key}:`, error);
+  }
+};
+
+export const readValue = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (error) {
+    console.error(`Error loading ${key}:`, error);
+    return fallback;
+  }
+};
+
+export const writeValue = <T>(key: string, value: T) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error saving ${key}:`, error);
+  }
+};
+
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,144 @@
+import { VadSettings } from '../types';
+
+// Energy-based voice activity detection for the 20 ms chunks coming from the
+// capture worklet. Compared to a fixed RMS gate it
+// - tracks the background noise level and sets its threshold relative to it,
+// - keeps sending for a "hangover" period after speech so word endings and
+//   short pauses aren't cut,
+// - buffers a "pre-roll" of audio while silent and sends it when speech starts,
+//   so the first syllable isn't lost.
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  sensitivity: 3,
+  hangoverMs: 400,
+  preRollMs: 200,
+};
+
+// Quietest level we ever treat as speech, so digital silence doesn't give a zero threshold.
+const MIN_THRESHOLD = 0.003;
+// Speech must last this many consecutive chunks to open the gate (filters clicks).
+const ATTACK_CHUNKS = 2;
+// The gate closes at a lower level than it opens, to avoid flapping.
+const RELEASE_RATIO = 0.7;
+const DEFAULT_NOISE_FLOOR = 0.005;
+// The quietest chunk in each window is taken as the current background level
+// (minimum statistics). Even continuous speech has gaps between words, so this
+// lets the floor rise while the gate is open when the room gets louder.
+const FLOOR_WINDOW_MS = 1000;
+// Share of the gap to the window minimum the floor closes per window.
+const FLOOR_RISE_RATE = 0.5;
+
+export interface VadChunk {
+  pcm: ArrayBuffer;
+  rms: number;
+}
+
+export interface VadResult {
+  // Chunks to send now, oldest first (pre-roll plus the current chunk at speech start).
+  send: ArrayBuffer[];
+  speaking: boolean;
+  // True on the chunk where speech ended after the hangover ran out.
+  speechEnded: boolean;
+}
+
+export interface VoiceActivityDetector {
+  process: (chunk: VadChunk) => VadResult;
+  getNoiseFloor: () => number;
+  reset: () => void;
+}
+
+export const createVoiceActivityDetector = (
+  settings: VadSettings = DEFAULT_VAD_SETTINGS,
+  chunkMs: number = 20
+): VoiceActivityDetector => {
+  const preRollChunks = Math.max(0, Math.round(settings.preRollMs / chunkMs));
+  const hangoverChunks = Math.max(1, Math.round(settings.hangoverMs / chunkMs));
+  const floorWindowChunks = Math.max(1, Math.round(FLOOR_WINDOW_MS / chunkMs));
+
+  let noiseFloor = settings.noiseFloor ?? DEFAULT_NOISE_FLOOR;
+  let speaking = false;
+  let aboveCount = 0;
+  let silentCount = 0;
+  let preRoll: ArrayBuffer[] = [];
+  let windowMin = Infinity;
+  let windowCount = 0;
+
+  const threshold = () => Math.max(MIN_THRESHOLD, noiseFloor * settings.sensitivity);
+
+  const updateNoiseFloor = (rms: number) => {
+    // Follow drops quickly and rises slowly, so a burst of speech that didn't
+    // open the gate doesn't drag the floor up.
+    const rate = rms < noiseFloor ? 0.2 : 0.01;
+    noiseFloor += (rms - noiseFloor) * rate;
+  };
+
+  const trackMinimum = (rms: number) => {
+    windowMin = Math.min(windowMin, rms);
+    if (++windowCount < floorWindowChunks) return;
+    if (windowMin > noiseFloor) noiseFloor += (windowMin - noiseFloor) * FLOOR_RISE_RATE;
+    windowMin = Infinity;
+    windowCount = 0;
+  };
+
+  const process = ({ pcm, rms }: VadChunk): VadResult => {
+    trackMinimum(rms);
+    if (!speaking) {
+      if (rms > threshold()) {
+        aboveCount++;
+      } else {
+        aboveCount = 0;
+        updateNoiseFloor(rms);
+      }
+
+      if (aboveCount >= ATTACK_CHUNKS) {
+        speaking = true;
+        silentCount = 0;
+        const send = [...preRoll, pcm];
+        preRoll = [];
+        return { send, speaking, speechEnded: false };
+      }
+
+      // Keep the pre-roll (which includes the first loud chunk while attack is pending).
+      preRoll.push(pcm);
+      if (preRoll.length > preRollChunks + ATTACK_CHUNKS - 1) preRoll.shift();
+      return { send: [], speaking, speechEnded: false };
+    }
+
+    if (rms < threshold() * RELEASE_RATIO) {
+      silentCount++;
+    } else {
+      silentCount = 0;
+    }
+
+    if (silentCount >= hangoverChunks) {
+      speaking = false;
+      aboveCount = 0;
+      // The hangover audio was already sent; start a fresh pre-roll.
+      preRoll = [];
+      return { send: [pcm], speaking, speechEnded: true };
+    }
+    return { send: [pcm], speaking, speechEnded: false };
+  };
+
+  return {
+    process,
+    getNoiseFloor: () => noiseFloor,
+    reset: () => {
+      speaking = false;
+      aboveCount = 0;
+      silentCount = 0;
+      preRoll = [];
+      windowMin = Infinity;
+      windowCount = 0;
+    },
+  };
+};
+
+// Noise floor from RMS levels recorded while the user stays silent. Uses a
+// high percentile so brief clicks during calibration don't count, but an
+// occasional louder moment (fan, keyboard) is taken into account.
+export const estimateNoiseFloor = (rmsValues: number[]): number => {
+  if (rmsValues.length === 0) return DEFAULT_NOISE_FLOOR;
+  const sorted = [...rmsValues].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.8))];
+};
@@ -1,7 +1,149 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const MAX_PROXY_BYTES = 2 * 1024 * 1024;
+const MAX_PROXY_REDIRECTS = 5;
+const PROXY_TIMEOUT_MS = 10000;
+
+// Loopback, private, link-local (incl. the cloud metadata address), carrier-grade
+// NAT, multicast and reserved ranges. The dev server listens on 0.0.0.0, so the
+// proxy must never reach into the network it runs in.
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+const isBlockedAddress = (address: string) => {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it wraps.
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return blockedAddresses.check(mapped[1], 'ipv4');
+  const family = net.isIP(address);
+  return family === 0 || blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// Validates every address a host name resolves to, at connect time, so a DNS
+// answer can't swap in a private address after the check.
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+    const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+    if (addresses.some(isBlockedAddress)) {
+      return callback(new Error(`${hostname} resolves to a blocked address`), address, family);
+    }
+    callback(null, address, family);
+  });
+};
+
+class ProxyError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const assertAllowedUrl = (url: URL) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ProxyError(`Unsupported protocol ${url.protocol}`, 400);
+  }
+  // IP literals never go through the lookup, so they are checked here.
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new ProxyError(`${url.hostname} is not a public address`, 403);
+  }
+};
+
+// Opens the URL, following redirects and checking every hop.
+const openUpstream = async (url: URL, redirects = 0): Promise<IncomingMessage> => {
+  assertAllowedUrl(url);
+  const client = url.protocol === 'https:' ? https : http;
+  const response = await new Promise<IncomingMessage>((resolve, reject) => {
+    const request = client.get(url, {
+      lookup: safeLookup,
+      timeout: PROXY_TIMEOUT_MS,
+      headers: { 'User-Agent': 'SalgsTrener-AI/1.0 (+product analysis)', 'Accept': 'text/html,*/*' },
+    }, resolve);
+    request.on('timeout', () => request.destroy(new Error('Timed out')));
+    request.on('error', reject);
+  });
+
+  const location = response.headers.location;
+  if (response.statusCode && response.statusCode >= 300 && response.statusCode < 400 && location) {
+    response.resume();
+    if (redirects >= MAX_PROXY_REDIRECTS) throw new ProxyError('Too many redirects', 502);
+    return openUpstream(new URL(location, url), redirects + 1);
+  }
+  return response;
+};
+
+// Reads at most MAX_PROXY_BYTES and drops the connection after that.
+const readCapped = (response: IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  response.on('data', (chunk: Buffer) => {
+    const room = MAX_PROXY_BYTES - size;
+    chunks.push(chunk.subarray(0, room));
+    size += Math.min(chunk.length, room);
+    if (size >= MAX_PROXY_BYTES) {
+      response.destroy();
+      resolve(Buffer.concat(chunks));
+    }
+  });
+  response.on('end', () => resolve(Buffer.concat(chunks)));
+  response.on('error', reject);
+});
+
+// GET /api/fetch?url=https://... fetches a page server-side so the browser can
+// read product websites that don't send CORS headers (see services/webContent.ts).
+// Public hosts only, and the page always comes back as plain text so it can
+// never run as HTML on the app's own origin.
+const handleFetchProxy = async (req: IncomingMessage, res: ServerResponse) => {
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  const target = new URL(req.url ?? '', 'http://localhost').searchParams.get('url');
+  let url: URL;
+  try {
+    url = new URL(target ?? '');
+  } catch {
+    res.statusCode = 400;
+    res.end('Missing or invalid url parameter');
+    return;
+  }
+  try {
+    const upstream = await openUpstream(url);
+    const body = await readCapped(upstream);
+    const charset = /charset=([\w-]+)/i.exec(upstream.headers['content-type'] ?? '')?.[1] ?? 'utf-8';
+    res.statusCode = upstream.statusCode ?? 502;
+    res.setHeader('Content-Type', `text/plain; charset=${charset}`);
+    res.end(body);
+  } catch (error) {
+    res.statusCode = error instanceof ProxyError ? error.status : 502;
+    res.end(`Could not fetch ${url.href}: ${(error as Error).message}`);
+  }
+};
+
+const fetchProxy = (): Plugin => ({
+  name: 'salgstrener-fetch-proxy',
+  configureServer(server) {
+    server.middlewares.use('/api/fetch', (req, res) => { handleFetchProxy(req, res); });
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use('/api/fetch', (req, res) => { handleFetchProxy(req, res); });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +151,16 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), fetchProxy()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // `vite --mode mock` runs fully offline against canned fixtures.
+        'process.env.LLM_PROVIDER': JSON.stringify(mode === 'mock' ? 'mock' : env.LLM_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.FETCH_PROXY_URL': JSON.stringify(env.FETCH_PROXY_URL)
       },
       resolve: {
         alias: {